@@ -0,0 +1,625 @@
+import express from 'express';
+import cors from 'cors';
+import { askQuestion, summarizeConversation } from './services/gemini.js';
+import { randomUUID } from 'crypto';
+import { analyzeUrl, refreshPrices } from './services/analyzer.js';
+import { createAnalysisCache } from './services/analysisCache.js';
+import { createCacheStore } from './services/cacheStore.js';
+import { compareAnalyses, MAX_COMPARE_PRODUCTS, MIN_COMPARE_PRODUCTS } from './services/comparison.js';
+import { rankPrices } from './services/offers.js';
+import type { CachedAnalysis } from './services/analysisCache.js';
+import { getProductId } from './services/productIdentity.js';
+import { recordPrices, getPriceHistory } from './services/priceHistory.js';
+import { watchlistStore } from './services/watchlist.js';
+import { validateWebhookUrl } from './services/notifiers.js';
+import { appendExchange, conversationStore, createConversation } from './services/conversations.js';
+import type { AnalyzeRequest, AnalyzeResponse, AskAIRequest, CompareRequest, CompareResponse, PriceData, ProductData, RankPricesRequest, AskAIResponse, WatchlistItem, WatchlistRequest } from './types/index.js';
+
+/**
+ * The Express app with all routes, without a listening server,
+ * so it can be mounted by index.ts or driven directly in tests
+ */
+export const app = express();
+
+// Analyzed products are served from cache for this long (also backs /api/prices/:productId)
+export const CACHE_TTL = Number(process.env.ANALYSIS_CACHE_TTL_MINUTES || 30) * 60 * 1000;
+
+// Latest store prices per product. /api/prices/:productId serves them while they are
+// fresher than CACHE_TTL; they are kept longer so the product can still be refreshed.
+interface CachedPrices {
+    product: ProductData;
+    prices: PriceData[];
+    lastUpdated: string;
+}
+
+const PRICE_RETENTION = 24 * 60 * 60 * 1000; // 24 hours
+const priceCache = createCacheStore<CachedPrices>('prices', { maxEntries: 5000 });
+
+const analysisCache = createAnalysisCache({
+    analyze: analyzeUrl,
+    store: createCacheStore('analyses', { maxEntries: 500 }),
+    ttlMs: CACHE_TTL,
+    onAnalyzed: async (response) => {
+        const { product, prices } = response;
+        await priceCache.set(product.id, { product, prices, lastUpdated: new Date().toISOString() }, PRICE_RETENTION);
+        // Persist the observations so price history outlives the cache
+        await recordPrices(product.id, prices);
+    }
+});
+
+// Middleware
+app.use(cors({
+    origin: ['http://https://main.d2906mzyvvwogq.amplifyapp.com/', 'http://https://buysense.onrender.com'],
+    methods: ['GET', 'POST', 'DELETE'],
+    credentials: true
+}));
+app.use(express.json());
+
+// Health check endpoint
+app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Banks the user holds cards for, as sent by the client
+function isCardList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(card => typeof card === 'string');
+}
+
+/**
+ * Cached results are marked with when their analysis originally ran
+ */
+function analysisResponse({ response, timestamp, cached }: CachedAnalysis & { cached: boolean }): AnalyzeResponse {
+    return cached ? { ...response, cachedAt: new Date(timestamp).toISOString() } : response;
+}
+
+/**
+ * Switch a response to Server-Sent Events. `signal` aborts when the client disconnects,
+ * after which `send` is a no-op.
+ */
+function openEventStream(res: express.Response) {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    return {
+        signal: controller.signal,
+        send(event: string, data: unknown) {
+            if (controller.signal.aborted) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    };
+}
+
+/**
+ * POST /api/analyze
+ * Analyze a product from a URL using web scraping + Gemini AI.
+ * Products analyzed within the last CACHE_TTL are served from cache unless `refresh` is set.
+ */
+app.post('/api/analyze', async (req, res) => {
+    try {
+        const { url, refresh } = req.body as AnalyzeRequest;
+
+        if (!url) {
+            res.status(400).json({ message: 'URL is required' });
+            return;
+        }
+
+        // Validate URL format
+        try {
+            new URL(url);
+        } catch {
+            res.status(400).json({ message: 'Invalid URL format' });
+            return;
+        }
+
+        console.log(`\n${'='.repeat(60)}`);
+        console.log(`Analyzing product: ${url}`);
+        console.log(`${'='.repeat(60)}`);
+
+        const result = await analysisCache.analyze(url, { refresh: refresh === true });
+
+        console.log(result.cached
+            ? `\n✓ Served cached analysis from ${new Date(result.timestamp).toISOString()}`
+            : `\n✓ Analysis completed in ${result.response.processingTime.toFixed(1)}s`);
+        console.log(`${'='.repeat(60)}\n`);
+
+        res.json(analysisResponse(result));
+
+    } catch (error) {
+        console.error('Error analyzing product:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to analyze product'
+        });
+    }
+});
+
+/**
+ * GET /api/analyze/stream?url=&refresh=
+ * Same pipeline as POST /api/analyze, streamed as Server-Sent Events:
+ * `step`, `product`, `prices` and `analysis` events while it runs, then `result` or `error`.
+ * A cached analysis is sent as a single `result` event.
+ */
+app.get('/api/analyze/stream', async (req, res) => {
+    const url = typeof req.query.url === 'string' ? req.query.url : '';
+    const refresh = req.query.refresh === 'true' || req.query.refresh === '1';
+
+    if (!url) {
+        res.status(400).json({ message: 'URL is required' });
+        return;
+    }
+
+    // Validate URL format
+    try {
+        new URL(url);
+    } catch {
+        res.status(400).json({ message: 'Invalid URL format' });
+        return;
+    }
+
+    // The pipeline keeps running if the client leaves, so its result still gets cached
+    const { send } = openEventStream(res);
+
+    console.log(`\n${'='.repeat(60)}`);
+    console.log(`Analyzing product (streaming): ${url}`);
+    console.log(`${'='.repeat(60)}`);
+
+    try {
+        const result = await analysisCache.analyze(url, {
+            refresh,
+            onProgress: (event) => {
+                const { type, ...data } = event;
+                send(type, data);
+            }
+        });
+
+        console.log(result.cached
+            ? `\n✓ Served cached analysis from ${new Date(result.timestamp).toISOString()}`
+            : `\n✓ Analysis completed in ${result.response.processingTime.toFixed(1)}s`);
+        console.log(`${'='.repeat(60)}\n`);
+
+        send('result', analysisResponse(result));
+    } catch (error) {
+        console.error('Error analyzing product:', error);
+        send('error', {
+            message: error instanceof Error ? error.message : 'Failed to analyze product'
+        });
+    }
+    res.end();
+});
+
+/**
+ * POST /api/compare
+ * Analyze 2–4 products concurrently (cached analyses are reused) and compare them:
+ * an aligned spec table with the best value per row, plus an AI verdict
+ */
+app.post('/api/compare', async (req, res) => {
+    try {
+        const startTime = Date.now();
+        const { urls, cards = [] } = req.body as CompareRequest;
+
+        if (!Array.isArray(urls) || urls.length < MIN_COMPARE_PRODUCTS || urls.length > MAX_COMPARE_PRODUCTS) {
+            res.status(400).json({ message: `Provide between ${MIN_COMPARE_PRODUCTS} and ${MAX_COMPARE_PRODUCTS} product URLs` });
+            return;
+        }
+
+        if (!isCardList(cards)) {
+            res.status(400).json({ message: 'cards must be a list of bank names' });
+            return;
+        }
+
+        for (const url of urls) {
+            try {
+                new URL(url);
+            } catch {
+                res.status(400).json({ message: `Invalid URL format: ${url}` });
+                return;
+            }
+        }
+
+        if (new Set(urls.map(getProductId)).size !== urls.length) {
+            res.status(400).json({ message: 'Each URL must be a different product' });
+            return;
+        }
+
+        console.log(`\nComparing ${urls.length} products:\n  ${urls.join('\n  ')}`);
+
+        const results = await Promise.allSettled(urls.map(url => analysisCache.analyze(url)));
+
+        const products: AnalyzeResponse[] = [];
+        const failed: string[] = [];
+        results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+                const response = analysisResponse(result.value);
+                // Best prices are compared after the offers on the user's cards
+                products.push({ ...response, prices: rankPrices(response.prices, cards) });
+            } else {
+                console.error(`Error analyzing ${urls[i]}:`, result.reason);
+                failed.push(urls[i]);
+            }
+        });
+
+        if (failed.length > 0) {
+            res.status(500).json({ message: `Could not analyze ${failed.join(', ')}. Please try again later.`, failed });
+            return;
+        }
+
+        const { specs, verdict } = await compareAnalyses(products);
+
+        const response: CompareResponse = {
+            products,
+            specs,
+            verdict,
+            processingTime: (Date.now() - startTime) / 1000
+        };
+
+        console.log(`✓ Comparison completed in ${response.processingTime.toFixed(1)}s`);
+        res.json(response);
+
+    } catch (error) {
+        console.error('Error comparing products:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to compare products'
+        });
+    }
+});
+
+/**
+ * POST /api/ask-ai
+ * Ask a follow-up question about a product, optionally continuing a conversation
+ */
+app.post('/api/ask-ai', async (req, res) => {
+    try {
+        const { productData, question, conversationId } = req.body as AskAIRequest;
+
+        if (!question) {
+            res.status(400).json({ message: 'Question is required' });
+            return;
+        }
+
+        // Unknown or expired conversations simply start over
+        const conversation = (conversationId && await conversationStore.get(conversationId)) || createConversation();
+
+        console.log(`AI Question (${conversation.turns.length / 2} earlier): ${question}`);
+
+        const response = await askQuestion(productData, question, conversation);
+
+        await conversationStore.save(
+            await appendExchange(conversation, question, response.answer, summarizeConversation)
+        );
+
+        const result: AskAIResponse = {
+            answer: response.answer,
+            confidence: response.confidence,
+            sources: response.sources,
+            conversationId: conversation.id
+        };
+
+        res.json(result);
+
+    } catch (error) {
+        console.error('Error in ask-ai:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to get AI response'
+        });
+    }
+});
+
+/**
+ * POST /api/ask-ai/stream
+ * Same as POST /api/ask-ai, but the answer is streamed as Server-Sent Events:
+ * `start` with the conversation ID, `delta` pieces of the answer, then `done` or `error`.
+ * Generation stops if the client disconnects.
+ */
+app.post('/api/ask-ai/stream', async (req, res) => {
+    const { productData, question, conversationId } = req.body as AskAIRequest;
+
+    if (!question) {
+        res.status(400).json({ message: 'Question is required' });
+        return;
+    }
+
+    const { send, signal } = openEventStream(res);
+
+    try {
+        // Unknown or expired conversations simply start over
+        let conversation = conversationId ? await conversationStore.get(conversationId) : undefined;
+        if (!conversation) {
+            conversation = createConversation();
+            // Stored up front so the ID still resolves if this answer is cancelled
+            await conversationStore.save(conversation);
+        }
+        send('start', { conversationId: conversation.id });
+
+        console.log(`AI Question, streaming (${conversation.turns.length / 2} earlier): ${question}`);
+
+        const response = await askQuestion(productData, question, conversation, {
+            onDelta: (delta) => send('delta', { text: delta }),
+            signal
+        });
+
+        await conversationStore.save(
+            await appendExchange(conversation, question, response.answer, summarizeConversation)
+        );
+
+        const result: AskAIResponse = {
+            answer: response.answer,
+            confidence: response.confidence,
+            sources: response.sources,
+            conversationId: conversation.id
+        };
+        send('done', result);
+    } catch (error) {
+        if (signal.aborted) {
+            console.log('Ask AI stream cancelled by client');
+        } else {
+            console.error('Error in ask-ai stream:', error);
+            send('error', {
+                message: error instanceof Error ? error.message : 'Failed to get AI response'
+            });
+        }
+    }
+    res.end();
+});
+
+/**
+ * GET /api/prices/:productId
+ * Get cached price comparison for a product
+ */
+app.get('/api/prices/:productId', async (req, res) => {
+    try {
+        const { productId } = req.params;
+
+        console.log(`Fetching prices for product: ${productId}`);
+
+        // Look up in cache
+        const cached = await priceCache.get(productId);
+
+        if (cached && Date.now() - new Date(cached.lastUpdated).getTime() < CACHE_TTL) {
+            console.log('Returning cached price data');
+            res.json({
+                productId,
+                prices: cached.prices,
+                lastUpdated: cached.lastUpdated
+            });
+            return;
+        }
+
+        // If not in cache, return empty with a helpful message
+        console.log('Product not found in cache');
+        res.status(404).json({
+            message: 'Price data not found. Please analyze the product first using POST /api/analyze',
+            productId
+        });
+
+    } catch (error) {
+        console.error('Error fetching prices:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to fetch prices'
+        });
+    }
+});
+
+/**
+ * POST /api/prices/:productId/refresh
+ * Re-check store prices for an analyzed product: scrapers plus a price-only Gemini prompt,
+ * without re-running the full analysis
+ */
+app.post('/api/prices/:productId/refresh', async (req, res) => {
+    try {
+        const { productId } = req.params;
+
+        const cached = await priceCache.get(productId);
+        if (!cached) {
+            res.status(404).json({
+                message: 'Product not found. Please analyze the product first using POST /api/analyze',
+                productId
+            });
+            return;
+        }
+
+        console.log(`Refreshing prices for product: ${productId}`);
+
+        const { product, prices, warnings } = await refreshPrices(cached.product, cached.prices);
+        const lastUpdated = new Date().toISOString();
+
+        await priceCache.set(productId, { product, prices, lastUpdated }, PRICE_RETENTION);
+        await analysisCache.updatePrices(productId, prices);
+        await recordPrices(productId, prices);
+
+        res.json({ productId, prices, warnings, lastUpdated });
+
+    } catch (error) {
+        console.error('Error refreshing prices:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to refresh prices'
+        });
+    }
+});
+
+/**
+ * POST /api/prices/rank
+ * Rank store prices again after the offers on the user's cards, e.g. when they pick a card
+ */
+app.post('/api/prices/rank', (req, res) => {
+    const { prices, cards } = req.body as RankPricesRequest;
+
+    if (!Array.isArray(prices) || !prices.every(p => typeof p?.price === 'number' && Array.isArray(p.offers))) {
+        res.status(400).json({ message: 'prices must be a list of store prices with their offers' });
+        return;
+    }
+
+    if (!isCardList(cards)) {
+        res.status(400).json({ message: 'cards must be a list of bank names' });
+        return;
+    }
+
+    res.json({ prices: rankPrices(prices, cards) });
+});
+
+/**
+ * GET /api/products/:productId/history
+ * Get the recorded price history for a product, grouped by store
+ */
+app.get('/api/products/:productId/history', async (req, res) => {
+    try {
+        const { productId } = req.params;
+
+        console.log(`Fetching price history for product: ${productId}`);
+
+        const history = await getPriceHistory(productId);
+
+        if (history.stores.length === 0) {
+            res.status(404).json({
+                message: 'No price history found. Please analyze the product first using POST /api/analyze',
+                productId
+            });
+            return;
+        }
+
+        res.json(history);
+
+    } catch (error) {
+        console.error('Error fetching price history:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to fetch price history'
+        });
+    }
+});
+
+/**
+ * POST /api/watchlist
+ * Watch a product and get notified when its price drops below a target
+ */
+app.post('/api/watchlist', async (req, res) => {
+    try {
+        const { url, targetPrice, channel, cards } = req.body as WatchlistRequest;
+
+        if (!url) {
+            res.status(400).json({ message: 'URL is required' });
+            return;
+        }
+
+        try {
+            new URL(url);
+        } catch {
+            res.status(400).json({ message: 'Invalid URL format' });
+            return;
+        }
+
+        if (typeof targetPrice !== 'number' || !(targetPrice > 0)) {
+            res.status(400).json({ message: 'targetPrice must be a positive number' });
+            return;
+        }
+
+        if (!channel || channel.type !== 'webhook') {
+            res.status(400).json({ message: 'channel must be { type: "webhook", url }' });
+            return;
+        }
+
+        if (cards !== undefined && !isCardList(cards)) {
+            res.status(400).json({ message: 'cards must be a list of bank names' });
+            return;
+        }
+
+        const invalidWebhook = await validateWebhookUrl(channel.url);
+        if (invalidWebhook) {
+            res.status(400).json({ message: invalidWebhook });
+            return;
+        }
+
+        const item: WatchlistItem = {
+            id: randomUUID(),
+            productId: getProductId(url),
+            url,
+            targetPrice,
+            channel: { type: 'webhook', url: channel.url },
+            ...(cards?.length ? { cards } : {}),
+            createdAt: new Date().toISOString()
+        };
+
+        await watchlistStore.save(item);
+        console.log(`Watching ${item.productId} for price <= ₹${targetPrice}`);
+
+        res.status(201).json(item);
+
+    } catch (error) {
+        console.error('Error adding to watchlist:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to add to watchlist'
+        });
+    }
+});
+
+/**
+ * GET /api/watchlist
+ * List all watched products
+ */
+app.get('/api/watchlist', async (_req, res) => {
+    try {
+        res.json({ items: await watchlistStore.list() });
+    } catch (error) {
+        console.error('Error listing watchlist:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to list watchlist'
+        });
+    }
+});
+
+/**
+ * GET /api/watchlist/:id
+ * Get a single watch
+ */
+app.get('/api/watchlist/:id', async (req, res) => {
+    try {
+        const item = await watchlistStore.get(req.params.id);
+
+        if (!item) {
+            res.status(404).json({ message: 'Watch not found' });
+            return;
+        }
+
+        res.json(item);
+    } catch (error) {
+        console.error('Error fetching watch:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to fetch watch'
+        });
+    }
+});
+
+/**
+ * DELETE /api/watchlist/:id
+ * Stop watching a product
+ */
+app.delete('/api/watchlist/:id', async (req, res) => {
+    try {
+        const removed = await watchlistStore.remove(req.params.id);
+
+        if (!removed) {
+            res.status(404).json({ message: 'Watch not found' });
+            return;
+        }
+
+        res.status(204).end();
+    } catch (error) {
+        console.error('Error removing watch:', error);
+        res.status(500).json({
+            message: error instanceof Error ? error.message : 'Failed to remove watch'
+        });
+    }
+});
+
+// Error handling middleware
+app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error('Unhandled error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+});
@@ -0,0 +1,118 @@
+import type { AnalyzeProgressListener } from './analyzer.js';
+import type { CacheStore } from './cacheStore.js';
+import { getProductId } from './productIdentity.js';
+import type { AnalyzeProgressEvent, AnalyzeResponse, PriceData } from '../types/index.js';
+
+export interface CachedAnalysis {
+    response: AnalyzeResponse;
+    timestamp: number;
+}
+
+export interface AnalysisCacheOptions {
+    // The pipeline being cached
+    analyze(url: string, onProgress?: AnalyzeProgressListener): Promise<AnalyzeResponse>;
+    // Where results are kept; shared between instances when it is Redis-backed
+    store: CacheStore<CachedAnalysis>;
+    // How long a result is served without re-analyzing
+    ttlMs: number;
+    // Called once for every fresh (not cached) result, e.g. to record its prices
+    onAnalyzed?(response: AnalyzeResponse): Promise<void>;
+}
+
+export interface AnalysisCache {
+    // The cached result for a product, if it is still fresh
+    get(productId: string): Promise<CachedAnalysis | undefined>;
+    /**
+     * Analyze a URL, or return the cached result for the same product.
+     * Concurrent requests for one product share a single pipeline run; a request that
+     * joins a run part-way first gets the progress so far, then follows along.
+     */
+    analyze(url: string, options?: { onProgress?: AnalyzeProgressListener; refresh?: boolean }): Promise<CachedAnalysis & { cached: boolean }>;
+    // Swap re-checked prices into a cached analysis, keeping its original expiry
+    updatePrices(productId: string, prices: PriceData[]): Promise<void>;
+}
+
+// A pipeline run shared by every request for its product
+interface PendingRun {
+    entry: Promise<CachedAnalysis>;
+    // Progress emitted so far, replayed to requests that join late
+    events: AnalyzeProgressEvent[];
+    listeners: Set<AnalyzeProgressListener>;
+}
+
+/**
+ * Cache in front of the analysis pipeline, keyed by canonical product identity,
+ * so re-analyzing a product within the freshness window costs no scraping or LLM calls
+ */
+export function createAnalysisCache(options: AnalysisCacheOptions): AnalysisCache {
+    const { store, ttlMs } = options;
+    // Only runs in this process are shared; another instance may analyze the same product once
+    const inFlight = new Map<string, PendingRun>();
+
+    async function get(productId: string): Promise<CachedAnalysis | undefined> {
+        const entry = await store.get(productId);
+        // The store expires entries itself; this guards against clocks and TTLs that disagree
+        if (!entry || Date.now() - entry.timestamp >= ttlMs) return undefined;
+        return entry;
+    }
+
+    function start(url: string, productId: string, onProgress?: AnalyzeProgressListener): PendingRun {
+        const events: AnalyzeProgressEvent[] = [];
+        // The first listener goes in before the pipeline can emit anything
+        const listeners = new Set<AnalyzeProgressListener>(onProgress ? [onProgress] : []);
+        const emit: AnalyzeProgressListener = (event) => {
+            events.push(event);
+            listeners.forEach(listener => listener(event));
+        };
+
+        // The pipeline gets the URL as given: slugs in the path help the model and the title fallback
+        const entry = (async () => {
+            try {
+                // Runs started without a listener skip streaming altogether, so they have no progress to share
+                const response = await options.analyze(url, onProgress && emit);
+                const cached: CachedAnalysis = { response, timestamp: Date.now() };
+                await store.set(productId, cached, ttlMs);
+                await options.onAnalyzed?.(response);
+                return cached;
+            } finally {
+                inFlight.delete(productId);
+            }
+        })();
+
+        const run: PendingRun = { entry, events, listeners };
+        inFlight.set(productId, run);
+        return run;
+    }
+
+    return {
+        get,
+        async analyze(url, { onProgress, refresh = false } = {}) {
+            const productId = getProductId(url);
+
+            if (!refresh) {
+                const cached = await get(productId);
+                if (cached) return { ...cached, cached: true };
+            }
+
+            let run = inFlight.get(productId);
+            if (run && onProgress) {
+                // Catch a late request up on the progress it missed, then follow along
+                for (const event of run.events) onProgress(event);
+                run.listeners.add(onProgress);
+            }
+            run ??= start(url, productId, onProgress);
+            try {
+                return { ...(await run.entry), cached: false };
+            } finally {
+                if (onProgress) run.listeners.delete(onProgress);
+            }
+        },
+        async updatePrices(productId, prices) {
+            const entry = await get(productId);
+            if (!entry) return;
+
+            const remaining = ttlMs - (Date.now() - entry.timestamp);
+            await store.set(productId, { ...entry, response: { ...entry.response, prices } }, remaining);
+        }
+    };
+}
@@ -0,0 +1,436 @@
+import { analyzeProduct as geminiAnalyze, fetchStorePrices, generateMarketplaceUrls } from './gemini.js';
+import type { AnalyzeStreamHandlers, GeminiPriceEntry, GeminiProductData } from './gemini.js';
+import { scrapeProduct } from './scraper.js';
+import type { ScrapedProduct } from './scraper.js';
+import { detectMarketplace, findMarketplace } from './marketplaces/index.js';
+import { getProductId } from './productIdentity.js';
+import { flagSuspectPrices, reconcileProduct } from './reconcile.js';
+import { rankPrices } from './offers.js';
+import { classifyCategory, suggestQuestions } from './category.js';
+import { parseVerdict } from './verdict.js';
+import { normalizeSpecifications } from './specNormalizer.js';
+import type { AnalysisWarning, AnalyzeProgressEvent, AnalyzeResponse, FieldProvenance, FieldSource, ProductData, PriceData, ProvenanceField } from '../types/index.js';
+
+export type AnalyzeProgressListener = (event: AnalyzeProgressEvent) => void;
+
+// Stand-in Gemini result used to build the preliminary product from scraped data alone
+const EMPTY_GEMINI_PRODUCT: GeminiProductData = {
+    title: '',
+    brand: '',
+    price: { current: 0, currency: 'INR' },
+    images: [],
+    specifications: {},
+    ratings: { average: 0, count: 0 },
+    highlights: []
+};
+
+/**
+ * Run the full analysis pipeline for a product URL:
+ * scrape (best effort), Gemini, merge, then price comparison.
+ * Shared by POST /api/analyze, its streaming variant and the watchlist scheduler.
+ *
+ * With `onProgress`, partial results are reported as soon as they exist: the scraped
+ * product, then the merged product and prices once Gemini's data block arrives, then
+ * the markdown analysis as it is generated.
+ */
+export async function analyzeUrl(url: string, onProgress?: AnalyzeProgressListener): Promise<AnalyzeResponse> {
+    const startTime = Date.now();
+    const emit = (event: AnalyzeProgressEvent) => onProgress?.(event);
+
+    // Detect marketplace
+    const marketplace = detectMarketplace(url);
+    console.log(`Detected marketplace: ${marketplace}`);
+
+    // Step 1: Try Cheerio scraping (best effort, often fails for JS-rendered sites)
+    console.log('\nStep 1: Attempting HTML scraping (best effort)...');
+    emit({ type: 'step', step: 'scrape', message: 'Reading the product page...' });
+    let scrapedData: ScrapedProduct | null = null;
+    try {
+        scrapedData = await scrapeProduct(url);
+        if (scrapedData) {
+            console.log(`✓ Scraper found: title="${scrapedData.title?.substring(0, 40)}", price=${scrapedData.price.current}`);
+        } else {
+            console.log('✗ Scraper returned null (expected for JS-rendered sites)');
+        }
+    } catch (err) {
+        console.log('✗ Scraper error (non-fatal):', err);
+    }
+
+    if (scrapedData) {
+        emit({ type: 'product', product: mergeProduct(url, marketplace, scrapedData, EMPTY_GEMINI_PRODUCT).product, preliminary: true });
+    }
+
+    // Step 2: Get AI analysis using Gemini with Google Search grounding (PRIMARY data source)
+    console.log('\nStep 2: Getting AI analysis via Gemini (primary data source)...');
+    emit({ type: 'step', step: 'gemini', message: 'Searching stores and analyzing with AI...' });
+
+    // Merge as soon as Gemini's data block is complete; reused below if it is the final data
+    let early = null as EarlyResult | null;
+    const handlers: AnalyzeStreamHandlers | undefined = onProgress && {
+        onData: ({ product, prices: geminiPrices }) => {
+            emit({ type: 'step', step: 'merge', message: 'Merging product details...' });
+            const merged = mergeProduct(url, marketplace, scrapedData, product);
+            emit({ type: 'product', product: merged.product, preliminary: false });
+
+            emit({ type: 'step', step: 'prices', message: 'Comparing prices across stores...' });
+            const prices = buildPriceComparison(url, marketplace, merged.product, scrapedData, geminiPrices, merged.warnings);
+            emit({ type: 'prices', prices, warnings: merged.warnings });
+
+            early = { source: product, merged, prices };
+        },
+        onAnalysisChunk: (delta) => emit({ type: 'analysis', delta })
+    };
+
+    const geminiResult = await geminiAnalyze(url, handlers);
+    console.log(`✓ Gemini returned: title="${geminiResult.product.title?.substring(0, 40)}", price=${geminiResult.product.price.current}, images=${geminiResult.product.images.length}, prices=${geminiResult.prices.length}`);
+
+    let productData: ProductData;
+    let prices: PriceData[];
+    let warnings: AnalysisWarning[];
+    if (early && early.source === geminiResult.product) {
+        ({ product: productData, warnings } = early.merged);
+        prices = early.prices;
+    } else {
+        // Step 3: Merge data — prioritize scraped data for fields where it's available, fall back to Gemini
+        console.log('\nStep 3: Merging data sources...');
+        ({ product: productData, warnings } = mergeProduct(url, marketplace, scrapedData, geminiResult.product));
+        // Step 4: Build price comparison from Gemini's data
+        console.log('\nStep 4: Building price comparison...');
+        prices = buildPriceComparison(url, marketplace, productData, scrapedData, geminiResult.prices, warnings);
+    }
+
+    console.log(`Final product: "${productData.title?.substring(0, 40)}", price=${productData.price.current}, images=${productData.images.length}`);
+    const category = classifyCategory(productData, marketplace);
+    const suggestedQuestions = suggestQuestions(category, geminiResult.suggestedQuestions);
+    console.log(`Category: ${category}, ${suggestedQuestions.length} suggested questions`);
+    console.log(`Price comparison: ${prices.length} stores`);
+    prices.forEach(p => console.log(`  ${p.store}: ₹${p.price} ${p.isBestPrice ? '(BEST)' : ''}${p.suspect ? '(SUSPECT)' : ''}`));
+    warnings.forEach(w => console.log(`⚠ ${w.message}`));
+
+    const processingTime = (Date.now() - startTime) / 1000;
+
+    return {
+        product: productData,
+        prices,
+        aiAnalysis: {
+            content: geminiResult.analysis,
+            sources: geminiResult.sources,
+            verdict: parseVerdict(geminiResult.analysis),
+            timestamp: geminiResult.timestamp
+        },
+        warnings,
+        category,
+        suggestedQuestions,
+        processingTime
+    };
+}
+
+export interface RefreshedPrices {
+    // The product with its current price updated from the source page, if that could be read
+    product: ProductData;
+    prices: PriceData[];
+    warnings: AnalysisWarning[];
+}
+
+async function scrapeQuietly(url: string): Promise<ScrapedProduct | null> {
+    try {
+        return await scrapeProduct(url);
+    } catch (err) {
+        console.log(`✗ Scraper error (non-fatal) for ${url}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Re-check store prices for an analyzed product without re-running the full analysis:
+ * the source page and every store page we have a scraper for are scraped again, the rest
+ * comes from a price-only Gemini prompt. Scraped prices win over Gemini's for their store.
+ */
+export async function refreshPrices(product: ProductData, previous: PriceData[]): Promise<RefreshedPrices> {
+    const { url, marketplace } = product.source;
+
+    // Store pages from the last comparison that a scraper can read; search links are skipped
+    const storePages = previous.filter(p =>
+        p.price > 0 && p.url !== url && p.store.toLowerCase() !== marketplace.toLowerCase() && !!findMarketplace(p.url)?.scrape
+    );
+
+    console.log(`Refreshing prices: scraping ${storePages.length + 1} store pages, asking Gemini for the rest`);
+    const [sourceScrape, storeScrapes, geminiPrices] = await Promise.all([
+        scrapeQuietly(url),
+        Promise.all(storePages.map(p => scrapeQuietly(p.url))),
+        fetchStorePrices({ title: product.title, brand: product.brand ?? '', url })
+    ]);
+
+    const entries = [...geminiPrices];
+    // Rows read off the store pages themselves, which the suspect-price check must not flag
+    const scrapedEntries = new Set<GeminiPriceEntry>();
+    const useScraped = (store: string, pageUrl: string, scraped: ScrapedProduct | null, availability: GeminiPriceEntry['availability']) => {
+        if (!scraped?.price?.current || scraped.price.current <= 0) return;
+        const existing = entries.findIndex(e => e.store.toLowerCase() === store.toLowerCase());
+        // Keep Gemini's offers for stores whose page showed none we could read
+        const offers = scraped.offers?.length ? scraped.offers : (entries[existing]?.offers ?? []);
+        const entry: GeminiPriceEntry = { store, price: scraped.price.current, currency: 'INR', url: pageUrl, availability: scraped.availability ?? availability, offers };
+        if (existing >= 0) entries[existing] = entry;
+        else entries.push(entry);
+        scrapedEntries.add(entry);
+    };
+    useScraped(marketplace, url, sourceScrape, 'in-stock');
+    storePages.forEach((page, i) => useScraped(page.store, page.url, storeScrapes[i], page.availability));
+
+    const refreshed: ProductData = sourceScrape?.price?.current && sourceScrape.price.current > 0
+        ? { ...product, price: { ...product.price, current: sourceScrape.price.current } }
+        : product;
+
+    const warnings: AnalysisWarning[] = [];
+    const prices = buildPriceComparison(url, marketplace, refreshed, sourceScrape, entries, warnings, scrapedEntries);
+    console.log(`Refreshed prices: ${prices.length} stores`);
+
+    return { product: refreshed, prices, warnings };
+}
+
+interface MergedProduct {
+    product: ProductData;
+    warnings: AnalysisWarning[];
+}
+
+interface EarlyResult {
+    source: GeminiProductData;
+    merged: MergedProduct;
+    prices: PriceData[];
+}
+
+/**
+ * Merge scraped and Gemini product data, recording provenance and any disagreements
+ */
+function mergeProduct(url: string, marketplace: string, scrapedData: ScrapedProduct | null, gemini: GeminiProductData): MergedProduct {
+    const hasScrapedTitle = scrapedData?.title && scrapedData.title !== 'Product';
+    const hasScrapedPrice = scrapedData?.price?.current && scrapedData.price.current > 0;
+    const hasGeminiTitle = gemini.title && gemini.title !== 'Product';
+    const hasGeminiPrice = gemini.price.current > 0;
+
+    const productData: ProductData = {
+        id: getProductId(url),
+        title: hasScrapedTitle ? scrapedData!.title : (hasGeminiTitle ? gemini.title : extractTitleFromUrl(url)),
+        brand: scrapedData?.brand || gemini.brand || '',
+        model: '',
+        price: {
+            current: hasScrapedPrice ? scrapedData!.price.current : (hasGeminiPrice ? gemini.price.current : 0),
+            original: scrapedData?.price?.original || gemini.price.original,
+            currency: scrapedData?.price?.currency || gemini.price.currency || 'INR'
+        },
+        images: pickBest(
+            scrapedData?.images,
+            gemini.images
+        ),
+        specifications: pickBestObject(
+            scrapedData?.specifications,
+            gemini.specifications
+        ),
+        normalizedSpecifications: {},
+        ratings: {
+            average: scrapedData?.ratings?.average || gemini.ratings.average || 0,
+            count: scrapedData?.ratings?.count || gemini.ratings.count || 0
+        },
+        highlights: pickBest(
+            scrapedData?.highlights,
+            gemini.highlights
+        ),
+        source: {
+            marketplace,
+            url
+        },
+        scrapedAt: new Date().toISOString(),
+        provenance: {},
+        confidence: 0
+    };
+
+    // Record where each merged field came from so the UI can flag AI-estimated values
+    const provenance: FieldProvenance = {
+        title: hasScrapedTitle ? 'scraper' : (hasGeminiTitle ? 'gemini' : 'url-fallback')
+    };
+    if (productData.brand) provenance.brand = scrapedData?.brand ? 'scraper' : 'gemini';
+    if (productData.price.current > 0) provenance.price = hasScrapedPrice ? 'scraper' : 'gemini';
+    if (productData.price.original) provenance.originalPrice = scrapedData?.price?.original ? 'scraper' : 'gemini';
+    if (productData.images.length > 0) provenance.images = productData.images === scrapedData?.images ? 'scraper' : 'gemini';
+    if (Object.keys(productData.specifications).length > 0) {
+        provenance.specifications = productData.specifications === scrapedData?.specifications ? 'scraper' : 'gemini';
+    }
+    if (productData.ratings.average > 0) provenance.ratings = scrapedData?.ratings?.average ? 'scraper' : 'gemini';
+    if (productData.highlights.length > 0) provenance.highlights = productData.highlights === scrapedData?.highlights ? 'scraper' : 'gemini';
+
+    productData.provenance = provenance;
+    productData.confidence = computeConfidence(provenance);
+    productData.normalizedSpecifications = normalizeSpecifications(
+        productData.specifications,
+        classifyCategory(productData, marketplace)
+    );
+
+    // Cross-check the values both sources reported
+    const warnings = reconcileProduct(scrapedData, gemini);
+
+    return { product: productData, warnings };
+}
+
+/**
+ * Turn Gemini's store prices into the comparison table: add the source store if missing,
+ * flag implausible rows (appending to `warnings`), mark the best price and fall back to
+ * search links when nothing else was found. Entries in `scrapedEntries` came from a store
+ * page rather than Gemini and are never flagged.
+ */
+function buildPriceComparison(
+    url: string,
+    marketplace: string,
+    productData: ProductData,
+    scrapedData: ScrapedProduct | null,
+    geminiPrices: GeminiPriceEntry[],
+    warnings: AnalysisWarning[],
+    scrapedEntries: ReadonlySet<GeminiPriceEntry> = new Set()
+): PriceData[] {
+    // Offers read off the source page win over Gemini's for that store
+    const scrapedOffers = scrapedData?.offers?.length ? scrapedData.offers : null;
+    const trustedPrices = new Set<PriceData>();
+    const prices: PriceData[] = geminiPrices.map(p => {
+        const price: PriceData = {
+            store: p.store,
+            price: p.price,
+            currency: p.currency,
+            url: p.url,
+            availability: p.availability,
+            offers: scrapedOffers && p.store.toLowerCase() === marketplace.toLowerCase() ? scrapedOffers : p.offers,
+            effectivePrice: p.price,
+            appliedOffers: [],
+            savings: undefined,
+            isBestPrice: false
+        };
+        if (scrapedEntries.has(p)) trustedPrices.add(price);
+        return price;
+    });
+
+    // If Gemini didn't find the source store, add it
+    const sourceInPrices = prices.some(p =>
+        p.store.toLowerCase() === marketplace.toLowerCase()
+    );
+    if (!sourceInPrices && productData.price.current > 0) {
+        const sourcePrice: PriceData = {
+            store: marketplace,
+            price: productData.price.current,
+            currency: 'INR',
+            url: url,
+            availability: scrapedData?.availability ?? 'in-stock',
+            offers: scrapedOffers ?? [],
+            effectivePrice: productData.price.current,
+            appliedOffers: [],
+            savings: undefined,
+            isBestPrice: false
+        };
+        prices.unshift(sourcePrice);
+        trustedPrices.add(sourcePrice);
+    }
+
+    // Don't let implausible Gemini prices win best price
+    const scrapedPrice = scrapedData?.price?.current && scrapedData.price.current > 0 ? scrapedData.price.current : null;
+    warnings.push(...flagSuspectPrices(prices, scrapedPrice, trustedPrices));
+
+    // If no price comparison found, add search links as fallback
+    if (prices.length <= 1 && productData.title !== 'Product') {
+        console.log('No other prices found, adding search links as fallback');
+        const marketplaceUrls = generateMarketplaceUrls(productData.title, marketplace);
+        for (const mp of marketplaceUrls.slice(0, 3)) {
+            prices.push({
+                store: mp.name,
+                price: 0,
+                currency: 'INR',
+                url: mp.searchUrl,
+                availability: 'in-stock',
+                offers: [],
+                effectivePrice: 0,
+                appliedOffers: [],
+                savings: undefined,
+                isBestPrice: false
+            });
+        }
+    }
+
+    // Best price and savings count the offers anyone can use; POST /api/prices/rank adds the user's cards
+    return rankPrices(prices);
+}
+
+
+// ============= Helper functions =============
+
+function extractTitleFromUrl(url: string): string {
+    try {
+        const urlObj = new URL(url);
+        const pathParts = urlObj.pathname.split('/').filter(Boolean);
+        const productPart = pathParts.find(part =>
+            part.length > 10 && !part.match(/^[a-zA-Z0-9]{10}$/)
+        );
+        if (productPart) {
+            return productPart.replace(/-/g, ' ').replace(/_/g, ' ');
+        }
+        return `Product from ${urlObj.hostname}`;
+    } catch {
+        return 'Product';
+    }
+}
+
+// How much each field matters to the overall confidence score
+const FIELD_WEIGHTS: Record<ProvenanceField, number> = {
+    title: 0.2,
+    price: 0.3,
+    originalPrice: 0.05,
+    brand: 0.05,
+    images: 0.1,
+    specifications: 0.1,
+    ratings: 0.1,
+    highlights: 0.1
+};
+
+// Read straight from the page > grounded Gemini answer > guessed from the URL
+const SOURCE_TRUST: Record<FieldSource, number> = {
+    scraper: 1,
+    gemini: 0.6,
+    'url-fallback': 0.2
+};
+
+/**
+ * Weighted trust across fields, 0..1. Brand and MRP only count when present,
+ * since many products legitimately have neither.
+ */
+function computeConfidence(provenance: FieldProvenance): number {
+    let total = 0;
+    let weightSum = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as ProvenanceField[]) {
+        const source = provenance[field];
+        if (!source && (field === 'brand' || field === 'originalPrice')) continue;
+
+        weightSum += FIELD_WEIGHTS[field];
+        total += source ? FIELD_WEIGHTS[field] * SOURCE_TRUST[source] : 0;
+    }
+    return weightSum > 0 ? Math.round((total / weightSum) * 100) / 100 : 0;
+}
+
+/**
+ * Pick the best array — prefer the one with more items, but only if it has real content
+ */
+function pickBest(a?: string[], b?: string[]): string[] {
+    const aValid = a && a.length > 0;
+    const bValid = b && b.length > 0;
+
+    if (aValid && bValid) {
+        return a!.length >= b!.length ? a! : b!;
+    }
+    return (aValid ? a! : bValid ? b! : []);
+}
+
+/**
+ * Pick the best object — prefer the one with more keys
+ */
+function pickBestObject(a?: Record<string, string>, b?: Record<string, string>): Record<string, string> {
+    const aKeys = a ? Object.keys(a).length : 0;
+    const bKeys = b ? Object.keys(b).length : 0;
+
+    if (aKeys >= bKeys && aKeys > 0) return a!;
+    if (bKeys > 0) return b!;
+    return {};
+}
@@ -0,0 +1,69 @@
+// Signals gathered while answering an Ask AI question
+export interface AnswerSignals {
+    // Web results the answer was grounded in
+    groundingChunks: number;
+    // Gemini's per-segment confidence that a grounding chunk supports the answer, 0..1
+    supportScores: number[];
+    // Whether the answer mentions values from the product's own specs or highlights
+    citesProductSpecs: boolean;
+    // The model's own 0..1 estimate, or null if it did not give one
+    selfAssessment: number | null;
+}
+
+// Grounded answers are the strongest signal, the model's own opinion comes next
+const SIGNAL_WEIGHTS = {
+    grounding: 0.45,
+    productSpecs: 0.15,
+    selfAssessment: 0.4
+};
+
+// Beyond this many sources, more don't make an answer more trustworthy
+const SATURATING_CHUNK_COUNT = 4;
+
+// Used when the model skipped its self-assessment
+const NEUTRAL_SELF_ASSESSMENT = 0.5;
+
+/**
+ * How far the answer is backed by search results, 0..1: half for how many sources
+ * there are, half for how strongly they support the text
+ */
+function groundingScore(chunks: number, supportScores: number[]): number {
+    if (chunks === 0) return 0;
+
+    const coverage = Math.min(chunks, SATURATING_CHUNK_COUNT) / SATURATING_CHUNK_COUNT;
+    if (supportScores.length === 0) return coverage * 0.5;
+
+    const support = supportScores.reduce((sum, score) => sum + score, 0) / supportScores.length;
+    return coverage * 0.5 + support * 0.5;
+}
+
+/**
+ * Combine the answer signals into a single 0..1 confidence
+ */
+export function scoreAnswerConfidence(signals: AnswerSignals): number {
+    const selfAssessment = signals.selfAssessment ?? NEUTRAL_SELF_ASSESSMENT;
+    const score =
+        SIGNAL_WEIGHTS.grounding * groundingScore(signals.groundingChunks, signals.supportScores) +
+        SIGNAL_WEIGHTS.productSpecs * (signals.citesProductSpecs ? 1 : 0) +
+        SIGNAL_WEIGHTS.selfAssessment * Math.min(Math.max(selfAssessment, 0), 1);
+
+    return Math.round(score * 100) / 100;
+}
+
+/**
+ * Whether the answer repeats any of the product's spec values or highlights,
+ * i.e. it is talking about this product rather than the category in general
+ */
+export function citesProductSpecs(
+    answer: string,
+    product: { specifications?: Record<string, string>; highlights?: string[] }
+): boolean {
+    const text = answer.toLowerCase();
+    const facts = [...Object.values(product.specifications ?? {}), ...(product.highlights ?? [])];
+
+    // Very short values ("Yes", "4") match by accident
+    return facts.some(fact => {
+        const value = fact.trim().toLowerCase();
+        return value.length >= 3 && text.includes(value);
+    });
+}
@@ -0,0 +1,128 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Key-value cache with per-entry expiry. Values must survive a JSON round trip,
+ * since the Redis implementation stores them serialised.
+ */
+export interface CacheStore<T> {
+    get(key: string): Promise<T | undefined>;
+    set(key: string, value: T, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+    // Least recently used entries are evicted beyond this many
+    maxEntries?: number;
+    // How often expired entries are swept out; 0 disables the sweep
+    sweepIntervalMs?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+/**
+ * Process-local LRU cache. Expired entries are dropped on read and by a periodic
+ * sweep, so entries nobody asks for again do not pile up.
+ */
+export function createMemoryCacheStore<T>(options: MemoryCacheOptions = {}): CacheStore<T> & { readonly size: number } {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL;
+
+    // Map iteration order doubles as recency order: reads and writes re-insert at the end
+    const entries = new Map<string, { value: T; expiresAt: number }>();
+
+    if (sweepIntervalMs > 0) {
+        const sweep = setInterval(() => {
+            const now = Date.now();
+            for (const [key, entry] of entries) {
+                if (entry.expiresAt <= now) entries.delete(key);
+            }
+        }, sweepIntervalMs);
+        // Never keep the process alive just to sweep
+        sweep.unref();
+    }
+
+    return {
+        get size() {
+            return entries.size;
+        },
+        async get(key) {
+            const entry = entries.get(key);
+            if (!entry) return undefined;
+
+            entries.delete(key);
+            if (entry.expiresAt <= Date.now()) return undefined;
+
+            entries.set(key, entry);
+            return entry.value;
+        },
+        async set(key, value, ttlMs) {
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+            while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value as string;
+                entries.delete(oldest);
+            }
+        },
+        async delete(key) {
+            entries.delete(key);
+        }
+    };
+}
+
+/**
+ * Cache shared through Redis, so every instance sees the same entries and they
+ * survive restarts. Keys are namespaced with `prefix`; expiry is left to Redis.
+ */
+export function createRedisCacheStore<T>(redis: Redis, prefix: string): CacheStore<T> {
+    const keyFor = (key: string) => `${prefix}:${key}`;
+
+    return {
+        async get(key) {
+            const raw = await redis.get(keyFor(key));
+            return raw === null ? undefined : JSON.parse(raw) as T;
+        },
+        async set(key, value, ttlMs) {
+            await redis.set(keyFor(key), JSON.stringify(value), 'PX', Math.max(1, Math.round(ttlMs)));
+        },
+        async delete(key) {
+            await redis.del(keyFor(key));
+        }
+    };
+}
+
+let redisClient: Redis | null = null;
+
+// One connection shared by every Redis-backed cache
+function getRedisClient(url: string): Redis {
+    if (!redisClient) {
+        redisClient = new Redis(url);
+        redisClient.on('error', (err) => console.error('Redis error:', err.message));
+    }
+    return redisClient;
+}
+
+export function isRedisEnabled(): boolean {
+    return !!process.env.REDIS_URL;
+}
+
+/**
+ * The cache for one kind of data: Redis when REDIS_URL is set, otherwise in memory
+ */
+export function createCacheStore<T>(namespace: string, options: MemoryCacheOptions = {}): CacheStore<T> {
+    const url = process.env.REDIS_URL;
+    return url
+        ? createRedisCacheStore<T>(getRedisClient(url), `buysense:${namespace}`)
+        : createMemoryCacheStore<T>(options);
+}
+
+/**
+ * Close the shared Redis connection, if one was opened
+ */
+export async function closeCacheStores(): Promise<void> {
+    if (!redisClient) return;
+    const client = redisClient;
+    redisClient = null;
+    await client.quit();
+}
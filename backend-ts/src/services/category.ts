@@ -0,0 +1,200 @@
+import type { ProductCategory } from '../types/index.js';
+
+interface CategoryRule {
+    category: ProductCategory;
+    // Matched against the title, and against spec keys and values
+    keywords: RegExp;
+    // Spec keys that are characteristic of the category on their own
+    specKeys?: RegExp;
+}
+
+// Order breaks ties: more specific categories come first
+const CATEGORY_RULES: CategoryRule[] = [
+    {
+        category: 'wearable',
+        keywords: /\b(smart ?watch|smart ?band|fitness (band|tracker)|smart ring)\b/i,
+        specKeys: /\b(strap|dial|sensor)\b/i
+    },
+    {
+        category: 'smartphone',
+        keywords: /\b(smartphone|mobile phone|iphone|android phone|5g phone|galaxy [amsz]\d+|redmi|oneplus|pixel \d)\b/i,
+        specKeys: /\b(sim|rear camera|front camera|network type)\b/i
+    },
+    {
+        category: 'laptop',
+        keywords: /\b(laptop|notebook|macbook|chromebook|ultrabook)\b/i,
+        specKeys: /\b(processor|graphics|ssd|operating system)\b/i
+    },
+    {
+        category: 'audio',
+        keywords: /\b(headphones?|earphones?|earbuds|tws|neckband|speaker|soundbar|headset)\b/i,
+        specKeys: /\b(driver|noise cancell?ation|anc|playback|codec)\b/i
+    },
+    {
+        category: 'television',
+        keywords: /\b(tv|television|smart tv|oled|qled)\b/i,
+        specKeys: /\b(refresh rate|hdr|screen size|panel)\b/i
+    },
+    {
+        category: 'appliance',
+        keywords: /\b(refrigerator|fridge|washing machine|air conditioner|(split|window|inverter) ac|microwave|dishwasher|air purifier|water purifier|geyser|vacuum cleaner|mixer grinder)\b/i,
+        specKeys: /\b(energy rating|star rating|capacity|annual energy|compressor)\b/i
+    },
+    {
+        category: 'footwear',
+        keywords: /\b(shoes?|sneakers?|sandals?|slippers?|flip ?flops?|boots?|loafers?|heels)\b/i,
+        specKeys: /\b(sole|upper material|toe shape|closure)\b/i
+    },
+    {
+        category: 'clothing',
+        keywords: /\b(kurtas?|kurti|saree|sari|shirt|t-shirt|tshirt|jeans|trousers|dress|lehenga|jacket|hoodie|top|leggings|dupatta|ethnic wear)\b/i,
+        specKeys: /\b(fabric|fit|sleeve|neck|wash care|pattern|length)\b/i
+    },
+    {
+        category: 'beauty',
+        keywords: /\b(serum|moisturi[sz]er|sunscreen|lipstick|shampoo|conditioner|face wash|perfume|foundation|cream|lotion|trimmer)\b/i,
+        specKeys: /\b(skin type|hair type|fragrance|spf|ingredients)\b/i
+    },
+    {
+        category: 'home',
+        keywords: /\b(sofa|mattress|bedsheet|curtains?|cookware|pressure cooker|chair|table|lamp|bottle|storage)\b/i,
+        specKeys: /\b(dimensions|material|assembly)\b/i
+    }
+];
+
+// Stores that mostly sell apparel, used when nothing else matched
+const FASHION_MARKETPLACES = new Set(['myntra', 'meesho']);
+
+/**
+ * Classify a product from its title, specs and marketplace. The title counts double,
+ * since spec sheets often mention other categories ("compatible with smartphones").
+ */
+export function classifyCategory(
+    product: { title: string; specifications: Record<string, string> },
+    marketplace: string
+): ProductCategory {
+    const specText = Object.entries(product.specifications)
+        .map(([key, value]) => `${key} ${value}`)
+        .join(' ');
+    const specKeys = Object.keys(product.specifications).join(' ');
+
+    let best: ProductCategory = 'general';
+    let bestScore = 0;
+    for (const rule of CATEGORY_RULES) {
+        let score = 0;
+        if (rule.keywords.test(product.title)) score += 2;
+        if (rule.keywords.test(specText)) score += 1;
+        if (rule.specKeys?.test(specKeys)) score += 1;
+
+        if (score > bestScore) {
+            best = rule.category;
+            bestScore = score;
+        }
+    }
+
+    if (best === 'general' && FASHION_MARKETPLACES.has(marketplace.toLowerCase())) {
+        return 'clothing';
+    }
+    return best;
+}
+
+// Fallback questions when the model did not suggest enough of its own
+const CATEGORY_QUESTIONS: Record<ProductCategory, string[]> = {
+    smartphone: [
+        'How is the battery life with heavy use?',
+        'How good is the camera in low light?',
+        'How many years of software updates will it get?',
+        'Does it heat up while gaming?'
+    ],
+    laptop: [
+        'Is it good for programming and multitasking?',
+        'How long does the battery last on a full charge?',
+        'Can the RAM or storage be upgraded?',
+        'How is the build quality and keyboard?'
+    ],
+    audio: [
+        'How good is the noise cancellation?',
+        'Are they comfortable for long use?',
+        'How is the call quality?',
+        'How long does the battery last?'
+    ],
+    television: [
+        'Is this a good size for my room?',
+        'How is the picture quality for sports and movies?',
+        'Which streaming apps does it support?',
+        'Is wall mounting included?'
+    ],
+    wearable: [
+        'How accurate are the health sensors?',
+        'How long does the battery last?',
+        'Does it work well with my phone?',
+        'Is it water resistant enough for swimming?'
+    ],
+    appliance: [
+        'How energy efficient is it?',
+        'Is it the right capacity for my family?',
+        'What does the warranty cover?',
+        'Is installation included?'
+    ],
+    clothing: [
+        'Does it run true to size?',
+        'How does the fabric feel and hold up after washing?',
+        'Is the colour the same as in the photos?',
+        'What is the return or exchange policy?'
+    ],
+    footwear: [
+        'Does it run true to size?',
+        'Is it comfortable for long walks?',
+        'How durable is the sole?',
+        'What is the return or exchange policy?'
+    ],
+    beauty: [
+        'Is it suitable for my skin type?',
+        'What are the key ingredients?',
+        'How long does one pack last?',
+        'Are there any common side effects?'
+    ],
+    home: [
+        'What are the exact dimensions?',
+        'How durable is the material?',
+        'Does it need assembly?',
+        'How easy is it to clean?'
+    ],
+    general: [
+        'Is it worth the price?',
+        'What do buyers complain about most?',
+        'Are there better alternatives in this price range?',
+        'What does the warranty cover?'
+    ]
+};
+
+const MIN_QUESTIONS = 4;
+const MAX_QUESTIONS = 6;
+
+/**
+ * Pick 4–6 suggested questions: the model's own first, topped up with the
+ * category's fallback questions
+ */
+export function suggestQuestions(category: ProductCategory, generated: string[]): string[] {
+    const questions: string[] = [];
+    const seen = new Set<string>();
+    const add = (question: string) => {
+        const key = question.toLowerCase();
+        if (seen.has(key)) return;
+        seen.add(key);
+        questions.push(question);
+    };
+
+    for (const question of generated) {
+        const cleaned = question.trim();
+        // Skip anything that isn't a short question
+        if (cleaned.endsWith('?') && cleaned.length <= 120) add(cleaned);
+        if (questions.length === MAX_QUESTIONS) return questions;
+    }
+
+    for (const question of CATEGORY_QUESTIONS[category]) {
+        if (questions.length >= MIN_QUESTIONS) break;
+        add(question);
+    }
+    return questions;
+}
@@ -0,0 +1,55 @@
+import { compareProducts } from './gemini.js';
+import { alignSpecifications, pickWinner } from './specAlignment.js';
+import { normalizeSpecifications } from './specNormalizer.js';
+import type { AnalyzeResponse, ComparisonVerdict, SpecComparisonRow } from '../types/index.js';
+
+export const MIN_COMPARE_PRODUCTS = 2;
+export const MAX_COMPARE_PRODUCTS = 4;
+
+// The store ranked best after offers, falling back to the listed price
+function bestPrice({ product, prices }: AnalyzeResponse): number {
+    return prices.find(p => p.isBestPrice)?.effectivePrice ?? product.price.current;
+}
+
+/**
+ * Price and rating rows, which come from the analysis rather than the spec sheet
+ */
+function summaryRows(products: AnalyzeResponse[]): SpecComparisonRow[] {
+    const prices = products.map(result => {
+        const price = bestPrice(result);
+        return price > 0 ? price : null;
+    });
+    const ratings = products.map(({ product }) => (product.ratings.count > 0 ? product.ratings.average : null));
+
+    return [
+        {
+            key: 'Best Price',
+            values: prices.map(price => (price === null ? null : `₹${price.toLocaleString('en-IN')}`)),
+            winner: pickWinner(prices, 'lower')
+        },
+        {
+            key: 'Rating',
+            values: products.map(({ product }, i) =>
+                ratings[i] === null ? null : `${product.ratings.average} (${product.ratings.count.toLocaleString('en-IN')} ratings)`
+            ),
+            winner: pickWinner(ratings, 'higher')
+        }
+    ];
+}
+
+/**
+ * Side-by-side spec table and LLM verdict for products that have already been analyzed
+ */
+export async function compareAnalyses(products: AnalyzeResponse[]): Promise<{ specs: SpecComparisonRow[]; verdict: ComparisonVerdict }> {
+    const specs = [
+        ...summaryRows(products),
+        // Analyses cached before specs were normalised have none stored
+        ...alignSpecifications(products.map(({ product, category }) =>
+            product.normalizedSpecifications ?? normalizeSpecifications(product.specifications, category)
+        ))
+    ];
+
+    const verdict = await compareProducts(products, specs);
+
+    return { specs, verdict };
+}
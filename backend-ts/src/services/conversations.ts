@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { createCacheStore } from './cacheStore.js';
+import type { CacheStore } from './cacheStore.js';
+import type { Conversation, ConversationTurn } from '../types/index.js';
+
+// Once a conversation has more turns than this, the oldest are folded into its summary
+const MAX_TURNS = 12;
+// Turns kept verbatim after summarising (3 question/answer pairs)
+const KEEP_RECENT_TURNS = 6;
+
+const MAX_CONVERSATIONS = 1000;
+const CONVERSATION_TTL = 2 * 60 * 60 * 1000; // 2 hours since last message
+
+/**
+ * Storage for Ask AI conversations. Routes only talk to this interface.
+ */
+export interface ConversationStore {
+    get(id: string): Promise<Conversation | undefined>;
+    save(conversation: Conversation): Promise<void>;
+}
+
+/**
+ * Conversations kept in a cache store, in memory or in Redis. Idle conversations
+ * expire, and with the memory store the least recently used are dropped once there
+ * are too many.
+ */
+export function createCachedConversationStore(
+    store: CacheStore<Conversation>,
+    ttlMs = CONVERSATION_TTL
+): ConversationStore {
+    return {
+        get: (id) => store.get(id),
+        // Every save restarts the idle timer
+        save: (conversation) => store.set(conversation.id, conversation, ttlMs)
+    };
+}
+
+export const conversationStore = createCachedConversationStore(
+    createCacheStore<Conversation>('conversations', { maxEntries: MAX_CONVERSATIONS })
+);
+
+export function createConversation(): Conversation {
+    const now = new Date().toISOString();
+    return { id: randomUUID(), turns: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Condenses older turns (plus any earlier summary) into a short summary
+ */
+export type ConversationSummarizer = (previousSummary: string | undefined, turns: ConversationTurn[]) => Promise<string>;
+
+/**
+ * Append a question and its answer, summarising the oldest turns once the
+ * conversation grows past MAX_TURNS so the history sent to the model stays bounded.
+ */
+export async function appendExchange(
+    conversation: Conversation,
+    question: string,
+    answer: string,
+    summarize: ConversationSummarizer
+): Promise<Conversation> {
+    const now = new Date().toISOString();
+    let summary = conversation.summary;
+    let turns: ConversationTurn[] = [
+        ...conversation.turns,
+        { role: 'user', text: question, createdAt: now },
+        { role: 'model', text: answer, createdAt: now }
+    ];
+
+    if (turns.length > MAX_TURNS) {
+        const older = turns.slice(0, turns.length - KEEP_RECENT_TURNS);
+        turns = turns.slice(-KEEP_RECENT_TURNS);
+        try {
+            summary = await summarize(summary, older);
+        } catch (err) {
+            // Losing the oldest turns beats failing the answer the user is waiting for
+            console.error('Failed to summarise conversation, dropping older turns:', err);
+        }
+    }
+
+    return { ...conversation, summary, turns, updatedAt: now };
+}
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LlmChunk, LlmProvider, LlmRequest, LlmResponse } from './llm/index.js';
+
+/**
+ * Record-and-replay of outbound calls, so the whole pipeline can run offline.
+ * FIXTURE_MODE=record performs the real call and saves its result, FIXTURE_MODE=replay
+ * serves saved results and never touches the network. Fixtures are JSON files under
+ * FIXTURES_DIR (default ./fixtures), one per request, named by a hash of the request.
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+// What kind of call a fixture holds; also its subdirectory
+export type FixtureKind = 'http' | 'render' | 'llm';
+
+interface FixtureFile<T> {
+    request: unknown;
+    response?: T;
+    // Failures are recorded too, so replay reproduces a 404 or a model error
+    error?: string;
+    recordedAt: string;
+}
+
+export class FixtureMissingError extends Error {
+    constructor(kind: FixtureKind, file: string) {
+        super(`No ${kind} fixture recorded for this request (expected ${file})`);
+        this.name = 'FixtureMissingError';
+    }
+}
+
+// Read on every call so tests can switch modes without reloading modules
+export function fixtureMode(): FixtureMode {
+    const mode = (process.env.FIXTURE_MODE || '').toLowerCase();
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function fixturesDir(): string {
+    return process.env.FIXTURES_DIR || path.join(process.cwd(), 'fixtures');
+}
+
+/**
+ * Stable JSON: object keys sorted, so the same request always hashes the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Fixture path for a request: `<dir>/<kind>/<label>-<hash>.json`. The label only
+ * makes the files easier to find; the hash is what identifies the request.
+ */
+export function fixturePath(kind: FixtureKind, label: string, request: unknown): string {
+    const hash = createHash('sha256').update(stableStringify(request)).digest('hex').slice(0, 16);
+    const safeLabel = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+    return path.join(fixturesDir(), kind, `${safeLabel || kind}-${hash}.json`);
+}
+
+async function readFixture<T>(file: string): Promise<FixtureFile<T> | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as FixtureFile<T>;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+    }
+}
+
+async function writeFixture<T>(file: string, fixture: FixtureFile<T>): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+}
+
+async function replayFixture<T>(kind: FixtureKind, file: string): Promise<T> {
+    const fixture = await readFixture<T>(file);
+    if (!fixture) throw new FixtureMissingError(kind, file);
+    if (fixture.error !== undefined) throw new Error(fixture.error);
+    return fixture.response as T;
+}
+
+function isAbort(err: unknown): boolean {
+    return err instanceof Error && (err.name === 'AbortError' || err.message === 'Aborted');
+}
+
+/**
+ * Run `live` through the fixture layer: untouched when fixtures are off, recorded
+ * in record mode, and replaced by the saved result in replay mode
+ */
+export async function withFixture<T>(
+    kind: FixtureKind,
+    label: string,
+    request: unknown,
+    live: () => Promise<T>
+): Promise<T> {
+    const mode = fixtureMode();
+    if (mode === 'off') return live();
+
+    const file = fixturePath(kind, label, request);
+    if (mode === 'replay') return replayFixture<T>(kind, file);
+
+    const recordedAt = new Date().toISOString();
+    try {
+        const response = await live();
+        await writeFixture(file, { request, response, recordedAt });
+        return response;
+    } catch (err) {
+        // A cancelled call says nothing about what the request returns
+        if (!isAbort(err)) {
+            await writeFixture<T>(file, { request, error: err instanceof Error ? err.message : String(err), recordedAt });
+        }
+        throw err;
+    }
+}
+
+// ============= LLM =============
+
+// The parts of a request that decide the answer; the abort signal and provider do not
+function llmFixtureRequest(request: LlmRequest, search: boolean) {
+    return { task: request.task, system: request.system, prompt: request.prompt, search };
+}
+
+/**
+ * Wrap a provider so its responses go through the fixture layer. Streams are
+ * recorded chunk by chunk and replayed in the same pieces. `createInner` is only
+ * called when a real call is needed, so replay works without an API key.
+ */
+export function createFixtureProvider(createInner: () => LlmProvider): LlmProvider {
+    let inner: LlmProvider | null = null;
+    const getInner = () => {
+        if (!inner) inner = createInner();
+        return inner;
+    };
+
+    const call = (request: LlmRequest, search: boolean): Promise<LlmResponse> =>
+        withFixture('llm', request.task, llmFixtureRequest(request, search), () =>
+            search ? getInner().generateWithSearch(request) : getInner().generate(request)
+        );
+
+    return {
+        name: 'fixture',
+        generate: request => call(request, false),
+        generateWithSearch: request => call(request, true),
+        async *stream(request) {
+            const mode = fixtureMode();
+            if (mode === 'off') {
+                yield* getInner().stream(request);
+                return;
+            }
+
+            const fixtureRequest = llmFixtureRequest(request, !!request.search);
+            const file = fixturePath('llm', request.task, fixtureRequest);
+
+            if (mode === 'replay') {
+                for (const chunk of await replayFixture<LlmChunk[]>('llm', file)) {
+                    if (request.signal?.aborted) throw new Error('Aborted');
+                    yield chunk;
+                }
+                return;
+            }
+
+            // Forward chunks as they arrive; the fixture is only written once the stream completes
+            const chunks: LlmChunk[] = [];
+            const recordedAt = new Date().toISOString();
+            try {
+                for await (const chunk of getInner().stream(request)) {
+                    chunks.push(chunk);
+                    yield chunk;
+                }
+            } catch (err) {
+                if (!isAbort(err)) {
+                    await writeFixture(file, { request: fixtureRequest, error: err instanceof Error ? err.message : String(err), recordedAt });
+                }
+                throw err;
+            }
+            await writeFixture(file, { request: fixtureRequest, response: chunks, recordedAt });
+        }
+    };
+}
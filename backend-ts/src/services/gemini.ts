@@ -1,13 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-
-// Initialize the Gemini AI client
-const getAIClient = () => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    return new GoogleGenAI({ apiKey });
-};
+import { addGrounding, emptyGrounding, getLlmProvider } from "./llm/index.js";
+import type { LlmMessage } from "./llm/index.js";
+import { listMarketplaces } from "./marketplaces/index.js";
+import { citesProductSpecs, scoreAnswerConfidence } from "./answerConfidence.js";
+import { parseGeminiComparison, parseGeminiData, parseGeminiPrices } from "./geminiSchema.js";
+import type { GeminiData } from "./geminiSchema.js";
+import type { AnalyzeResponse, ComparisonVerdict, Conversation, ConversationTurn, Offer, SpecComparisonRow } from "../types/index.js";
 
 // Type for extracted product data from Gemini
 export interface GeminiProductData {
@@ -34,12 +31,32 @@ export interface GeminiPriceEntry {
     currency: string;
     url: string;
     availability: 'in-stock' | 'out-of-stock' | 'limited';
+    offers: Offer[];
 }
 
+// Shared by the analysis and price-only prompts
+const OFFERS_FORMAT = `"offers": [
+                {
+                    "type": "bank",
+                    "bank": "HDFC Bank",
+                    "discount": 10,
+                    "discountType": "percent",
+                    "cap": 1500,
+                    "minSpend": 5000,
+                    "description": "10% off on HDFC Bank Credit Cards, up to ₹1,500 on orders of ₹5,000 and above"
+                }
+            ]`;
+
+const OFFERS_RULES = `offers lists the bank offers, coupons, cashback, no-cost EMI and exchange offers shown on that store's product page today:
+   - type is one of "bank", "coupon", "cashback", "no-cost-emi" or "exchange"; bank is the issuing bank for card offers, omitted otherwise.
+   - discount is rupees off when discountType is "flat", or a percentage when it is "percent"; cap is the most a percentage can take off, minSpend the minimum order value, 0 if none.
+   - Do NOT include discounts already reflected in the price. Use an empty list if the store shows no offers.`;
+
 // Type for the full Gemini analysis result
 export interface GeminiAnalysisResult {
     product: GeminiProductData;
     prices: GeminiPriceEntry[];
+    suggestedQuestions: string[];
     analysis: string;
     sources: {
         title: string;
@@ -48,12 +65,82 @@ export interface GeminiAnalysisResult {
     timestamp: string;
 }
 
+// Used when the data block cannot be recovered even after a corrective re-prompt
+function emptyGeminiData(): GeminiData {
+    return {
+        product: {
+            title: "Product",
+            brand: "",
+            price: { current: 0, currency: "INR" },
+            images: [],
+            specifications: {},
+            ratings: { average: 0, count: 0 },
+            highlights: []
+        },
+        prices: [],
+        suggestedQuestions: []
+    };
+}
+
+const JSON_BLOCK = /```json\s*([\s\S]*?)\s*```/;
+
+/**
+ * Split a Gemini analysis response into the JSON data block and the markdown analysis.
+ * `data` is null when the block is missing or fails validation, with the reason in `error`.
+ */
+function parseGeminiResponse(fullContent: string): { data: GeminiData | null; rawJson: string; error: string; analysis: string } {
+    const jsonMatch = fullContent.match(JSON_BLOCK);
+    if (!jsonMatch) {
+        return { data: null, rawJson: fullContent, error: "No ```json block found", analysis: fullContent };
+    }
+
+    const analysis = fullContent.replace(JSON_BLOCK, '').trim();
+    const result = parseGeminiData(jsonMatch[1].trim());
+    return result.success
+        ? { data: result.data, rawJson: jsonMatch[1], error: '', analysis }
+        : { data: null, rawJson: jsonMatch[1], error: result.error, analysis };
+}
+
+/**
+ * Ask Gemini once to fix a data block that failed validation
+ */
+async function correctGeminiData(rawJson: string, error: string): Promise<GeminiData | null> {
+    const prompt = `The JSON below was supposed to describe a product but failed validation: ${error}
+
+Return ONLY the corrected JSON in a \`\`\`json code block, with this structure:
+{"product": {"title": string, "brand": string, "price": {"current": number, "original": number, "currency": string}, "images": string[], "specifications": {string: string}, "ratings": {"average": number, "count": number}, "highlights": string[]}, "prices": [{"store": string, "price": number, "currency": string, "url": string, "availability": "in-stock" | "out-of-stock" | "limited", "offers": [{"type": "bank" | "coupon" | "cashback" | "no-cost-emi" | "exchange", "bank": string, "discount": number, "discountType": "flat" | "percent", "cap": number, "minSpend": number, "description": string}]}], "suggestedQuestions": string[]}
+
+Prices must be plain numbers without currency symbols or commas. Keep every value from the original; do not invent new ones.
+
+${rawJson.slice(0, 20000)}`;
+
+    try {
+        const { text } = await getLlmProvider().generate({ task: 'repair', prompt });
+        const result = parseGeminiData((text.match(JSON_BLOCK)?.[1] ?? text).trim());
+        if (result.success) return result.data;
+
+        console.error("Corrected Gemini JSON still invalid:", result.error);
+        return null;
+    } catch (err) {
+        console.error("Corrective re-prompt failed:", err);
+        return null;
+    }
+}
+
+/**
+ * Callbacks for streaming analysis: the data block arrives first, then the markdown in chunks
+ */
+export interface AnalyzeStreamHandlers {
+    onData?(data: { product: GeminiProductData; prices: GeminiPriceEntry[] }): void;
+    onAnalysisChunk?(delta: string): void;
+}
+
 /**
  * Analyze a product from a URL using Gemini with Google Search grounding.
  * This is the PRIMARY data source — it extracts real product data + prices + analysis.
  */
-export const analyzeProduct = async (productUrl: string): Promise<GeminiAnalysisResult> => {
-    const ai = getAIClient();
+export const analyzeProduct = async (productUrl: string, handlers?: AnalyzeStreamHandlers): Promise<GeminiAnalysisResult> => {
+    const llm = getLlmProvider();
 
     const prompt = `You are a product data extraction and analysis engine for BuySense.
 
@@ -97,8 +184,12 @@ Your response MUST be in exactly this format — a JSON code block followed by a
             "price": 0,
             "currency": "INR",
             "url": "Direct URL to the product on that store OR search URL if exact product page not found",
-            "availability": "in-stock"
+            "availability": "in-stock",
+            ${OFFERS_FORMAT}
         }
+    ],
+    "suggestedQuestions": [
+        "A question a shopper would ask about this product?"
     ]
 }
 \`\`\`
@@ -114,13 +205,15 @@ CRITICAL RULES FOR THE JSON:
 8. For the prices array: Search for this EXACT product (or very close match) on Amazon India, Flipkart, Croma, Reliance Digital, Myntra, and Meesho. Only include stores where you can find a real price. Include the source store from the URL as the first entry for the prices array.
 9. Each price entry must have a real URL — either a direct product link or a search results link for that store.
 10. Do NOT invent prices. Only include a store if you found an actual price for this product there.
+11. ${OFFERS_RULES}
+12. suggestedQuestions should be 4-6 short questions a shopper would ask before buying THIS product, specific to its category (e.g. fit and fabric care for clothing, energy use for appliances, battery and camera for phones).
 
 After the JSON block, provide a markdown analysis with these sections:
 ## Product Overview
 Brief overview of the product, its positioning, and reputation.
 
 ## Price Analysis
-Is the current price good? Any known discounts or deals?
+Start with exactly one of **GOOD DEAL**, **FAIR PRICE** or **OVERPRICED**, then explain: is the current price good? Any known discounts or deals?
 
 ## Pros
 - Pro 1
@@ -133,121 +226,80 @@ Is the current price good? Any known discounts or deals?
 - Con 3
 
 ## Recommendation
-A clear BUY / SKIP / CONSIDER recommendation with brief reasoning.
+Start with exactly one of **BUY**, **SKIP** or **CONSIDER**, then give brief reasoning.
 
 ## BuySense Score: X/10
 One-line justification for the score.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-flash-lite-latest",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
-
-        const fullContent = response.text || "No analysis available.";
-
-        // Parse JSON from the response
-        let product: GeminiProductData = {
-            title: "Product",
-            brand: "",
-            price: { current: 0, currency: "INR" },
-            images: [],
-            specifications: {},
-            ratings: { average: 0, count: 0 },
-            highlights: []
-        };
-        let prices: GeminiPriceEntry[] = [];
-        let analysisContent = fullContent;
-
-        // Try to extract JSON from code block
-        const jsonMatch = fullContent.match(/```json\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-            try {
-                const parsed = JSON.parse(jsonMatch[1].trim());
-
-                if (parsed.product) {
-                    product = {
-                        title: parsed.product.title || "Product",
-                        brand: parsed.product.brand || "",
-                        price: {
-                            current: parsed.product.price?.current || 0,
-                            original: parsed.product.price?.original || undefined,
-                            currency: parsed.product.price?.currency || "INR"
-                        },
-                        images: Array.isArray(parsed.product.images) ? parsed.product.images.filter((img: string) => img && img.startsWith('http')) : [],
-                        specifications: parsed.product.specifications || {},
-                        ratings: {
-                            average: parsed.product.ratings?.average || 0,
-                            count: parsed.product.ratings?.count || 0
-                        },
-                        highlights: Array.isArray(parsed.product.highlights) ? parsed.product.highlights : []
-                    };
-
-                    // Clean up original price — set to undefined if 0 or less than current
-                    if (product.price.original && (product.price.original <= 0 || product.price.original <= product.price.current)) {
-                        product.price.original = undefined;
+        let fullContent: string;
+        let grounding = emptyGrounding();
+        let parsedEarly: GeminiData | null = null;
+        let jsonDone = false;
+
+        if (handlers) {
+            // Stream so the caller sees the data block and the markdown as they are generated
+            const stream = llm.stream({ task: 'analyze', prompt, search: true });
+
+            let text = "";
+            let emittedUpTo = 0;
+            let analysisStarted = false;
+            for await (const chunk of stream) {
+                text += chunk.text;
+                addGrounding(grounding, chunk.grounding);
+
+                // The JSON block comes first; hand it over as soon as its closing fence arrives
+                if (!jsonDone) {
+                    const jsonMatch = text.match(JSON_BLOCK);
+                    if (!jsonMatch) continue;
+
+                    // A block that fails validation is corrected after the stream ends
+                    jsonDone = true;
+                    parsedEarly = parseGeminiResponse(text).data;
+                    if (parsedEarly) {
+                        handlers.onData?.({ product: parsedEarly.product, prices: parsedEarly.prices });
                     }
+                    emittedUpTo = jsonMatch.index! + jsonMatch[0].length;
                 }
 
-                if (Array.isArray(parsed.prices)) {
-                    prices = parsed.prices
-                        .filter((p: any) => p.price > 0)
-                        .map((p: any) => ({
-                            store: p.store || 'Unknown',
-                            price: p.price || 0,
-                            currency: p.currency || 'INR',
-                            url: p.url || '',
-                            availability: p.availability || 'in-stock'
-                        }));
-                }
-
-                // Remove JSON block from the analysis content
-                analysisContent = fullContent.replace(/```json\s*[\s\S]*?\s*```/, '').trim();
-            } catch (e) {
-                console.error("Failed to parse JSON from Gemini response:", e);
-                // Try a more lenient approach - look for { at start
-                try {
-                    const rawJson = jsonMatch[1].trim();
-                    // Remove trailing commas before } or ]
-                    const cleaned = rawJson.replace(/,\s*([}\]])/g, '$1');
-                    const parsed = JSON.parse(cleaned);
-                    if (parsed.product) {
-                        product = {
-                            title: parsed.product.title || "Product",
-                            brand: parsed.product.brand || "",
-                            price: {
-                                current: parsed.product.price?.current || 0,
-                                currency: parsed.product.price?.currency || "INR"
-                            },
-                            images: [],
-                            specifications: parsed.product.specifications || {},
-                            ratings: { average: 0, count: 0 },
-                            highlights: []
-                        };
+                const delta = text.slice(emittedUpTo);
+                if (delta) {
+                    // Drop the blank lines between the JSON block and the markdown
+                    const analysisDelta = analysisStarted ? delta : delta.trimStart();
+                    if (analysisDelta) {
+                        handlers.onAnalysisChunk?.(analysisDelta);
+                        analysisStarted = true;
                     }
-                } catch {
-                    console.error("Lenient JSON parsing also failed");
+                    emittedUpTo = text.length;
                 }
             }
+            fullContent = text || "No analysis available.";
+        } else {
+            const response = await llm.generateWithSearch({ task: 'analyze', prompt });
+
+            fullContent = response.text || "No analysis available.";
+            grounding = response.grounding;
         }
 
-        // Extract sources from grounding metadata
-        const groundingChunks = (response.candidates?.[0] as any)?.groundingMetadata?.groundingChunks || [];
-        const sources = groundingChunks
-            .map((chunk: any) => ({
-                title: chunk.web?.title || "Reference",
-                uri: chunk.web?.uri || ""
-            }))
-            .filter((s: { title: string; uri: string }) => s.uri !== "");
+        const parsed = parseGeminiResponse(fullContent);
+        const analysisContent = parsed.analysis;
+
+        // Reuse the streamed parse so callers can match the early data to the final result
+        let data = parsedEarly ?? parsed.data;
+        if (!data) {
+            console.warn(`Gemini data block invalid (${parsed.error}), asking for a correction`);
+            data = await correctGeminiData(parsed.rawJson, parsed.error) ?? emptyGeminiData();
+        }
+        const { product, prices, suggestedQuestions } = data;
+
+        const { sources } = grounding;
 
         console.log(`Gemini extracted: title="${product.title?.substring(0, 50)}", price=${product.price.current}, images=${product.images.length}, prices=${prices.length}`);
 
         return {
             product,
             prices,
+            suggestedQuestions,
             analysis: analysisContent,
             sources,
             timestamp: new Date().toISOString()
@@ -259,7 +311,193 @@ One-line justification for the score.`;
 };
 
 /**
- * Answer a follow-up question about a product using Gemini
+ * Look up current store prices for an already analyzed product with a price-only prompt:
+ * no product extraction and no analysis, so it is much cheaper than analyzeProduct.
+ */
+export const fetchStorePrices = async (product: { title: string; brand: string; url: string }): Promise<GeminiPriceEntry[]> => {
+    const llm = getLlmProvider();
+    const stores = listMarketplaces().map(m => m.name).join(', ');
+
+    const prompt = `You are a price lookup engine for BuySense.
+
+TASK: Find the CURRENT selling price of this exact product at Indian online stores.
+
+**Product:** ${product.title}
+${product.brand ? `**Brand:** ${product.brand}\n` : ''}**Listed at:** ${product.url}
+
+Search the web for this EXACT product (same model and variant) on ${stores}.
+Respond with ONLY a JSON code block in exactly this format:
+
+\`\`\`json
+{
+    "prices": [
+        {
+            "store": "Store Name",
+            "price": 0,
+            "currency": "INR",
+            "url": "Direct URL to the product on that store",
+            "availability": "in-stock",
+            ${OFFERS_FORMAT}
+        }
+    ]
+}
+\`\`\`
+
+RULES:
+1. price must be the actual selling price shown today, as a number. Do NOT invent or estimate prices.
+2. Only include a store if you found an actual price for this product there.
+3. availability is one of "in-stock", "out-of-stock" or "limited".
+4. ${OFFERS_RULES}`;
+
+    let text: string;
+    try {
+        ({ text } = await llm.generateWithSearch({ task: 'prices', prompt }));
+    } catch (error) {
+        console.error("Error in fetchStorePrices:", error);
+        throw new Error("Failed to look up store prices. Please try again later.");
+    }
+
+    const result = parseGeminiPrices((text.match(JSON_BLOCK)?.[1] ?? text).trim());
+    if (!result.success) {
+        console.warn(`Gemini price block invalid (${result.error}), using scraped prices only`);
+        return [];
+    }
+    return result.data;
+};
+
+function describeForComparison(result: AnalyzeResponse, index: number): string {
+    const { product, aiAnalysis } = result;
+    const verdict = aiAnalysis.verdict;
+
+    return [
+        `### Product ${index + 1}: ${product.title}`,
+        product.brand ? `- Brand: ${product.brand}` : '',
+        verdict ? `- Individual verdict: ${verdict.verdict} (${verdict.score}/10)${verdict.priceAssessment ? `, price ${verdict.priceAssessment.rating}` : ''}` : '',
+        verdict?.pros.length ? `- Pros: ${verdict.pros.slice(0, 4).join('; ')}` : '',
+        verdict?.cons.length ? `- Cons: ${verdict.cons.slice(0, 4).join('; ')}` : ''
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Ask for a head-to-head verdict on products that have each been analyzed already
+ */
+export const compareProducts = async (
+    products: AnalyzeResponse[],
+    specs: SpecComparisonRow[]
+): Promise<ComparisonVerdict> => {
+    const specTable = [
+        `| Spec | ${products.map((_, i) => `Product ${i + 1}`).join(' | ')} |`,
+        `|---|${products.map(() => '---').join('|')}|`,
+        ...specs.map(row => `| ${row.key} | ${row.values.map(v => v ?? '—').join(' | ')} |`)
+    ].join('\n');
+
+    const prompt = `You are BuySense, an expert shopping advisor for Indian consumers.
+
+TASK: Compare these ${products.length} products and tell the shopper which one to buy.
+
+${products.map(describeForComparison).join('\n\n')}
+
+**Price, rating and specifications:**
+${specTable}
+
+First respond with a JSON code block in exactly this format:
+
+\`\`\`json
+{
+    "winner": 1,
+    "summary": "One or two sentences on which product to buy and why",
+    "bestFor": ["Who product 1 suits best", "Who product 2 suits best"]
+}
+\`\`\`
+
+- winner is the number of the product you recommend overall, or 0 if it genuinely depends on the buyer.
+- bestFor has exactly one short entry per product, in the order above.
+
+Then write the comparison in markdown:
+
+## Head to Head
+Compare the products on what matters most for this kind of product: performance, build, features and value for money. Refer to products by name, not number.
+
+## Which One Should You Buy?
+Clear advice for different kinds of buyers.
+
+Be honest and specific. Only use the information above; do not invent specifications.`;
+
+    let text: string;
+    try {
+        ({ text } = await getLlmProvider().generate({ task: 'compare', prompt }));
+    } catch (error) {
+        console.error("Error in compareProducts:", error);
+        throw new Error("Failed to compare products. Please try again later.");
+    }
+
+    const content = text.replace(JSON_BLOCK, '').trim();
+    const result = parseGeminiComparison((text.match(JSON_BLOCK)?.[1] ?? '{}').trim());
+    if (!result.success) {
+        console.warn(`Gemini comparison block invalid (${result.error}), returning the text only`);
+        return { winner: null, summary: '', bestFor: products.map(() => ''), content };
+    }
+
+    const { winner, summary, bestFor } = result.data;
+    return {
+        // The prompt numbers products from 1
+        winner: winner >= 1 && winner <= products.length ? winner - 1 : null,
+        summary,
+        bestFor: products.map((_, i) => bestFor[i] ?? ''),
+        content
+    };
+};
+
+export interface AskStreamHandlers {
+    onDelta(delta: string): void;
+    // Aborting stops generation, e.g. when the client disconnects
+    signal?: AbortSignal;
+}
+
+export interface AskAnswer {
+    answer: string;
+    confidence: number;
+    sources: Array<{ title: string; uri: string }>;
+}
+
+// The model ends every answer with this marker followed by its self-assessment
+const ASSESSMENT_MARKER = "[[ASSESSMENT";
+
+/**
+ * The part of the answer meant for the user: everything before the self-assessment.
+ * While streaming, a trailing partial marker is held back until it is complete.
+ */
+function visibleAnswer(text: string): string {
+    const start = text.indexOf(ASSESSMENT_MARKER);
+    if (start !== -1) return text.slice(0, start).trimEnd();
+
+    for (let len = Math.min(ASSESSMENT_MARKER.length - 1, text.length); len > 0; len--) {
+        if (text.endsWith(ASSESSMENT_MARKER.slice(0, len))) return text.slice(0, -len);
+    }
+    return text;
+}
+
+/**
+ * The model's own 0..1 confidence from the self-assessment, or null if missing or malformed
+ */
+function parseSelfAssessment(text: string): number | null {
+    const match = text.match(/\[\[ASSESSMENT\s*(\{[\s\S]*?\})\s*\]\]/);
+    if (!match) return null;
+
+    try {
+        const confidence = Number(JSON.parse(match[1]).confidence);
+        return Number.isFinite(confidence) ? confidence : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Answer a follow-up question about a product using Gemini.
+ * Earlier turns of the conversation (and its summary, if any) are sent as chat history.
+ * With `handlers`, the answer is streamed and each new piece is passed to `onDelta`.
+ * Confidence is derived from grounding, whether the product's specs are cited and the
+ * model's self-assessment.
  */
 export const askQuestion = async (
     productData: {
@@ -269,44 +507,100 @@ export const askQuestion = async (
         ratings?: { average: number; count: number };
         highlights?: string[];
     },
-    question: string
-): Promise<{ answer: string; confidence: number }> => {
-    const ai = getAIClient();
+    question: string,
+    history?: Pick<Conversation, 'summary' | 'turns'>,
+    handlers?: AskStreamHandlers
+): Promise<AskAnswer> => {
+    const llm = getLlmProvider();
 
-    const prompt = `You are a helpful shopping assistant for BuySense. Answer the following question about this product:
+    const systemInstruction = `You are a helpful shopping assistant for BuySense. Answer the user's questions about this product:
 
 **Product:** ${productData.title}
 **Price:** ${productData.price.currency} ${productData.price.current}
 ${productData.specifications ? `**Specifications:** ${JSON.stringify(productData.specifications)}` : ''}
 ${productData.ratings ? `**Ratings:** ${productData.ratings.average}/5 (${productData.ratings.count} reviews)` : ''}
 ${productData.highlights ? `**Key Features:** ${productData.highlights.join(', ')}` : ''}
+${history?.summary ? `\n**Earlier in this conversation:** ${history.summary}\n` : ''}
+Provide a helpful, accurate, and concise answer based on the product details, the conversation so far and your web search results.
+Quote the relevant specifications above where they support your answer.
+If you're not sure about something, say so honestly. Do NOT make up information.
 
-**Question:** ${question}
+After the answer, on its own last line, rate how confident you are that the answer is correct for this exact product:
+${ASSESSMENT_MARKER} {"confidence": <number from 0 to 1>}]]`;
 
-Provide a helpful, accurate, and concise answer based on the product details and your web search results.
-If you're not sure about something, say so honestly. Do NOT make up information.`;
+    const messages: LlmMessage[] = [
+        ...(history?.turns ?? []).map(turn => ({ role: turn.role, text: turn.text })),
+        { role: 'user', text: question }
+    ];
+    const request = { task: 'ask' as const, prompt: messages, system: systemInstruction, signal: handlers?.signal };
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-flash-lite-latest",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
+        let text = '';
+        let grounding = emptyGrounding();
+
+        if (handlers) {
+            let emitted = 0;
+            for await (const chunk of llm.stream({ ...request, search: true })) {
+                addGrounding(grounding, chunk.grounding);
+                if (!chunk.text) continue;
+
+                text += chunk.text;
+                const visible = visibleAnswer(text);
+                if (visible.length > emitted) {
+                    handlers.onDelta(visible.slice(emitted));
+                    emitted = visible.length;
+                }
+            }
+        } else {
+            const response = await llm.generateWithSearch(request);
+            text = response.text;
+            grounding = response.grounding;
+        }
 
-        const answer = response.text || "I couldn't generate an answer. Please try again.";
+        const answer = visibleAnswer(text).trim();
+        if (!answer) {
+            return { answer: "I couldn't generate an answer. Please try again.", confidence: 0, sources: [] };
+        }
 
-        return {
-            answer,
-            confidence: 0.85
-        };
+        const { sources, supportScores } = grounding;
+        const confidence = scoreAnswerConfidence({
+            groundingChunks: sources.length,
+            supportScores,
+            citesProductSpecs: citesProductSpecs(answer, productData),
+            selfAssessment: parseSelfAssessment(text)
+        });
+
+        return { answer, confidence, sources };
     } catch (error) {
+        if (handlers?.signal?.aborted) throw error;
         console.error("Error in askQuestion:", error);
         throw new Error("Failed to get AI response. Please try again later.");
     }
 };
 
+/**
+ * Condense older conversation turns into a short summary that replaces them in the history
+ */
+export const summarizeConversation = async (
+    previousSummary: string | undefined,
+    turns: ConversationTurn[]
+): Promise<string> => {
+
+    const transcript = turns
+        .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+        .join('\n\n');
+
+    const prompt = `Summarize this conversation between a shopper and a shopping assistant in at most 150 words.
+Keep every product, competitor, price, preference and conclusion mentioned, since later questions may refer back to them.
+${previousSummary ? `\n**Summary of the conversation before this part:** ${previousSummary}\n` : ''}
+**Conversation:**
+${transcript}`;
+
+    const { text } = await getLlmProvider().generate({ task: 'summarize', prompt });
+
+    return text.trim() || previousSummary || '';
+};
+
 /**
  * Generate marketplace search URLs for a product (fallback for price comparison)
  */
@@ -314,16 +608,7 @@ export function generateMarketplaceUrls(productTitle: string, sourceMarketplace:
     name: string;
     searchUrl: string;
 }> {
-    const encodedQuery = encodeURIComponent(productTitle);
-
-    const marketplaces = [
-        { name: 'Amazon', searchUrl: `https://www.amazon.in/s?k=${encodedQuery}` },
-        { name: 'Flipkart', searchUrl: `https://www.flipkart.com/search?q=${encodedQuery}` },
-        { name: 'Myntra', searchUrl: `https://www.myntra.com/${encodedQuery.replace(/%20/g, '-')}` },
-        { name: 'Meesho', searchUrl: `https://www.meesho.com/search?q=${encodedQuery}` },
-        { name: 'Croma', searchUrl: `https://www.croma.com/search/?q=${encodedQuery}` },
-        { name: 'Reliance Digital', searchUrl: `https://www.reliancedigital.in/search?q=${encodedQuery}` },
-    ];
-
-    return marketplaces.filter(m => m.name.toLowerCase() !== sourceMarketplace.toLowerCase());
+    return listMarketplaces()
+        .filter(m => m.name.toLowerCase() !== sourceMarketplace.toLowerCase())
+        .map(m => ({ name: m.name, searchUrl: m.searchUrl(productTitle) }));
 }
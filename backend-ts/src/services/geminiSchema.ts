@@ -0,0 +1,327 @@
+import { z } from 'zod';
+import type { GeminiPriceEntry, GeminiProductData } from './gemini.js';
+import type { AIVerdict } from '../types/index.js';
+import { normalizeBank } from './offers.js';
+
+// ============= Coercion =============
+
+/**
+ * Numbers as Gemini writes them: 1299, "1299", "₹1,299", "Rs. 1,299.00", "4.3 out of 5"
+ */
+function toNumber(value: unknown): unknown {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return value;
+
+    const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+    return match ? Number(match[0]) : value;
+}
+
+function toStringList(value: unknown): unknown {
+    if (typeof value === 'string') return value.trim() ? [value] : [];
+    return value;
+}
+
+// Spec values sometimes come back as numbers, booleans or lists
+function toSpecValue(value: unknown): unknown {
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) return value.join(', ');
+    return value;
+}
+
+function toAvailability(value: unknown): unknown {
+    if (typeof value !== 'string') return value;
+    const text = value.toLowerCase();
+    if (/out.of.stock|unavailable|sold out/.test(text)) return 'out-of-stock';
+    if (/limited|few left|only \d+/.test(text)) return 'limited';
+    if (/in.stock|available/.test(text)) return 'in-stock';
+    return value;
+}
+
+const amount = z.preprocess(toNumber, z.number().nonnegative());
+const text = z.preprocess(value => (typeof value === 'string' ? value.trim() : value), z.string());
+// 0 and missing both mean "no limit"
+const optionalAmount = amount.optional().catch(undefined).transform(value => value || undefined);
+
+// ============= Schemas =============
+
+// Title and current price are required; everything else falls back to empty
+// rather than failing the whole product
+export const geminiProductSchema = z.object({
+    title: text.pipe(z.string().min(1)),
+    brand: text.catch(''),
+    price: z.object({
+        current: amount,
+        original: amount.optional().catch(undefined),
+        currency: text.catch('INR')
+    }),
+    images: z.preprocess(toStringList, z.array(z.string())).catch([])
+        .transform(images => images.filter(img => img.startsWith('http'))),
+    specifications: z.record(z.string(), z.preprocess(toSpecValue, z.string())).catch({}),
+    ratings: z.object({
+        average: amount.pipe(z.number().max(5)).catch(0),
+        count: amount.catch(0)
+    }).catch({ average: 0, count: 0 }),
+    highlights: z.preprocess(toStringList, z.array(z.string())).catch([])
+});
+
+export const geminiOfferSchema = z.object({
+    type: z.preprocess(
+        value => (typeof value === 'string' ? value.toLowerCase().replace(/[\s_]+/g, '-') : value),
+        z.enum(['bank', 'coupon', 'cashback', 'no-cost-emi', 'exchange'])
+    ),
+    // Canonical bank name where recognised, so offers match saved cards
+    bank: text.optional().catch(undefined).transform(bank => (bank ? normalizeBank(bank) ?? bank : undefined)),
+    discount: amount,
+    discountType: z.enum(['flat', 'percent']).catch('flat'),
+    cap: optionalAmount,
+    minSpend: optionalAmount,
+    description: text.catch('')
+}).refine(offer => offer.discountType === 'flat' || offer.discount <= 100, 'percent discount above 100');
+
+// Unreadable offers are dropped, and repeats of one the model already listed; a store
+// without offers is still a valid entry
+const offerListSchema = z.array(z.unknown()).catch([]).transform(entries => {
+    const offers: z.infer<typeof geminiOfferSchema>[] = [];
+    for (const entry of entries) {
+        const parsed = geminiOfferSchema.safeParse(entry);
+        if (parsed.success && !offers.some(o => o.description === parsed.data.description)) offers.push(parsed.data);
+    }
+    return offers;
+});
+
+export const geminiPriceEntrySchema = z.object({
+    store: text.pipe(z.string().min(1)),
+    price: amount,
+    currency: text.catch('INR'),
+    url: text.catch(''),
+    availability: z.preprocess(toAvailability, z.enum(['in-stock', 'out-of-stock', 'limited'])).catch('in-stock'),
+    offers: offerListSchema.optional().transform(offers => offers ?? [])
+});
+
+// A single bad store entry is dropped instead of failing the whole list
+const priceListSchema = z.array(z.unknown()).catch([]).transform(entries =>
+    entries.flatMap(entry => {
+        const parsed = geminiPriceEntrySchema.safeParse(entry);
+        return parsed.success && parsed.data.price > 0 ? [parsed.data] : [];
+    })
+);
+
+export const geminiDataSchema = z.object({
+    product: geminiProductSchema,
+    prices: priceListSchema,
+    suggestedQuestions: z.array(z.unknown()).catch([]).transform(questions =>
+        questions.filter((q): q is string => typeof q === 'string')
+    )
+});
+
+// Reply to the price-only prompt used when refreshing prices
+export const geminiPricesSchema = z.object({
+    prices: priceListSchema
+});
+
+// Verdict block of the comparison prompt; winner is the 1-based product number, 0 for none
+export const geminiComparisonSchema = z.object({
+    winner: z.preprocess(toNumber, z.number().int().nonnegative()).catch(0),
+    summary: text,
+    bestFor: z.preprocess(toStringList, z.array(z.string())).catch([])
+});
+
+export type GeminiComparison = z.infer<typeof geminiComparisonSchema>;
+
+// Verdict read out of the analysis markdown. Nothing is coerced: a verdict that does not
+// fit is dropped rather than shown half made up.
+export const geminiVerdictSchema = z.object({
+    verdict: z.enum(['BUY', 'SKIP', 'CONSIDER']),
+    score: z.number().min(0).max(10),
+    pros: z.array(z.string()),
+    cons: z.array(z.string()),
+    priceAssessment: z.object({
+        rating: z.enum(['good-deal', 'fair', 'overpriced']),
+        summary: z.string()
+    }).optional()
+}) satisfies z.ZodType<AIVerdict>;
+
+export interface GeminiData {
+    product: GeminiProductData;
+    prices: GeminiPriceEntry[];
+    suggestedQuestions: string[];
+}
+
+// ============= Repair =============
+
+/**
+ * Close strings, objects and arrays left open by a truncated response,
+ * dropping a trailing comma or dangling key first
+ */
+function closeTruncated(json: string): string {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of json) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') stack.push('}');
+        else if (char === '[') stack.push(']');
+        else if (char === '}' || char === ']') stack.pop();
+    }
+
+    if (stack.length === 0 && !inString) return json;
+
+    let repaired = json;
+    if (inString) {
+        // A value cut off mid-string goes with its key rather than being kept half-written
+        repaired = repaired.replace(/,\s*"[^"]*"\s*:\s*"[^"]*$/, '');
+        if (repaired === json) repaired = `${json}"`;
+    }
+    repaired = repaired
+        .replace(/,\s*"[^"]*"\s*:\s*"?[^"{}[\],]*$/, '')   // dangling `"key": value`
+        .replace(/,\s*"[^"]*"\s*:?\s*$/, '')              // dangling `"key"` or `"key":`
+        .replace(/[,:]\s*$/, '');
+    return repaired + stack.reverse().join('');
+}
+
+/**
+ * Index just past the object opening at `start`, or the end of the text if it never
+ * closes (a truncated response), so prose after the object is dropped but truncated
+ * entries are not
+ */
+function objectEnd(json: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < json.length; i++) {
+        const char = json[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') depth++;
+        else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return json.length;
+}
+
+/**
+ * Best-effort fixes for the ways model output usually breaks JSON: code fences and prose
+ * around it, comments, trailing commas, smart quotes, unquoted keys, Python literals
+ * and truncation
+ */
+export function repairJson(raw: string): string {
+    let json = raw.trim()
+        .replace(/^```(?:json)?\s*/i, '')
+        .replace(/\s*```$/, '')
+        .replace(/[“”]/g, '"')
+        .replace(/[‘’]/g, "'");
+
+    // Keep only the outermost object
+    const start = json.indexOf('{');
+    if (start === -1) return json;
+    json = json.slice(start, objectEnd(json, start));
+
+    json = json
+        .replace(/^\s*\/\/.*$/gm, '')
+        .replace(/\s\/\/[^\n"]*$/gm, '')
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/([{,]\s*)([A-Za-z_][\w]*)\s*:/g, '$1"$2":')
+        .replace(/([:[{,]\s*)'([^'"\\]*)'/g, '$1"$2"')
+        .replace(/:\s*True\b/g, ': true')
+        .replace(/:\s*False\b/g, ': false')
+        .replace(/:\s*(None|NaN|undefined)\b/g, ': null')
+        .replace(/,\s*([}\]])/g, '$1');
+
+    return closeTruncated(json);
+}
+
+// ============= Parsing =============
+
+export type GeminiDataResult =
+    | { success: true; data: GeminiData }
+    | { success: false; error: string };
+
+export type GeminiPricesResult =
+    | { success: true; data: GeminiPriceEntry[] }
+    | { success: false; error: string };
+
+export type GeminiComparisonResult =
+    | { success: true; data: GeminiComparison }
+    | { success: false; error: string };
+
+/**
+ * JSON.parse, falling back to the repaired text if plain parsing fails
+ */
+function parseJson(raw: string): { success: true; value: unknown } | { success: false; error: string } {
+    try {
+        return { success: true, value: JSON.parse(raw) };
+    } catch {
+        try {
+            return { success: true, value: JSON.parse(repairJson(raw)) };
+        } catch (err) {
+            return { success: false, error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` };
+        }
+    }
+}
+
+function describeIssues(error: z.ZodError): string {
+    return error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+}
+
+/**
+ * Parse and validate the JSON data block, repairing it first if plain parsing fails
+ */
+export function parseGeminiData(raw: string): GeminiDataResult {
+    const json = parseJson(raw);
+    if (!json.success) return json;
+
+    const result = geminiDataSchema.safeParse(json.value);
+    if (!result.success) return { success: false, error: describeIssues(result.error) };
+
+    const { product, prices, suggestedQuestions } = result.data;
+
+    // Original price only means something as a strikethrough above the current price
+    if (product.price.original !== undefined && product.price.original <= product.price.current) {
+        product.price.original = undefined;
+    }
+
+    return { success: true, data: { product, prices, suggestedQuestions } };
+}
+
+/**
+ * Parse and validate the price-only JSON block, repairing it first if plain parsing fails
+ */
+export function parseGeminiPrices(raw: string): GeminiPricesResult {
+    const json = parseJson(raw);
+    if (!json.success) return json;
+
+    const result = geminiPricesSchema.safeParse(json.value);
+    return result.success
+        ? { success: true, data: result.data.prices }
+        : { success: false, error: describeIssues(result.error) };
+}
+
+/**
+ * Parse and validate the comparison verdict block, repairing it first if plain parsing fails
+ */
+export function parseGeminiComparison(raw: string): GeminiComparisonResult {
+    const json = parseJson(raw);
+    if (!json.success) return json;
+
+    const result = geminiComparisonSchema.safeParse(json.value);
+    return result.success
+        ? { success: true, data: result.data }
+        : { success: false, error: describeIssues(result.error) };
+}
@@ -0,0 +1,50 @@
+import { emptyGrounding } from './types.js';
+import type { LlmGrounding, LlmProvider, LlmRequest } from './types.js';
+
+// A canned reply, or a function computing one from the request
+export type FakeResponder = (request: LlmRequest & { search: boolean }) => string | { text: string; grounding?: LlmGrounding };
+
+export interface FakeProviderOptions {
+    respond?: FakeResponder;
+    // Size of the pieces `stream` splits the reply into
+    chunkSize?: number;
+}
+
+/**
+ * Deterministic provider for tests and offline development: no network, the same
+ * request always produces the same reply. Every request is recorded in `calls`.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): LlmProvider & { calls: Array<LlmRequest & { search: boolean }> } {
+    const respond: FakeResponder = options.respond ?? (request => `Fake ${request.task} response`);
+    const chunkSize = Math.max(1, options.chunkSize ?? 16);
+    const calls: Array<LlmRequest & { search: boolean }> = [];
+
+    function reply(request: LlmRequest, search: boolean) {
+        const call = { ...request, search };
+        calls.push(call);
+
+        const result = respond(call);
+        return typeof result === 'string'
+            ? { text: result, grounding: emptyGrounding() }
+            : { text: result.text, grounding: result.grounding ?? emptyGrounding() };
+    }
+
+    return {
+        name: 'fake',
+        calls,
+        async generate(request) {
+            return reply(request, false);
+        },
+        async generateWithSearch(request) {
+            return reply(request, true);
+        },
+        async *stream(request) {
+            const { text, grounding } = reply(request, !!request.search);
+            for (let i = 0; i < text.length; i += chunkSize) {
+                if (request.signal?.aborted) throw new Error('Aborted');
+                const last = i + chunkSize >= text.length;
+                yield { text: text.slice(i, i + chunkSize), grounding: last ? grounding : undefined };
+            }
+        }
+    };
+}
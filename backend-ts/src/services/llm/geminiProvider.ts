@@ -0,0 +1,68 @@
+import { GoogleGenAI } from '@google/genai';
+import type { Content, GenerateContentResponse, GroundingMetadata } from '@google/genai';
+import { emptyGrounding, modelFor } from './types.js';
+import type { LlmGrounding, LlmModelConfig, LlmProvider, LlmRequest } from './types.js';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    models: LlmModelConfig;
+}
+
+function toContents(prompt: LlmRequest['prompt']): string | Content[] {
+    if (typeof prompt === 'string') return prompt;
+    return prompt.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+}
+
+function toGrounding(metadata: GroundingMetadata | undefined): LlmGrounding {
+    const grounding = emptyGrounding();
+    for (const chunk of metadata?.groundingChunks ?? []) {
+        const uri = chunk.web?.uri;
+        if (uri && !grounding.sources.some(source => source.uri === uri)) {
+            grounding.sources.push({ title: chunk.web?.title || 'Reference', uri });
+        }
+    }
+    for (const support of metadata?.groundingSupports ?? []) {
+        grounding.supportScores.push(...(support.confidenceScores ?? []));
+    }
+    return grounding;
+}
+
+function groundingOf(response: GenerateContentResponse): LlmGrounding {
+    return toGrounding(response.candidates?.[0]?.groundingMetadata);
+}
+
+/**
+ * Google Gemini, with Google Search grounding for search requests
+ */
+export function createGeminiProvider(options: GeminiProviderOptions): LlmProvider {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+
+    const buildRequest = (request: LlmRequest, search: boolean) => ({
+        model: modelFor(options.models, request.task),
+        contents: toContents(request.prompt),
+        config: {
+            systemInstruction: request.system,
+            tools: search ? [{ googleSearch: {} }] : undefined,
+            abortSignal: request.signal,
+        },
+    });
+
+    return {
+        name: 'gemini',
+        async generate(request) {
+            const response = await ai.models.generateContent(buildRequest(request, false));
+            return { text: response.text || '', grounding: groundingOf(response) };
+        },
+        async generateWithSearch(request) {
+            const response = await ai.models.generateContent(buildRequest(request, true));
+            return { text: response.text || '', grounding: groundingOf(response) };
+        },
+        async *stream(request) {
+            const stream = await ai.models.generateContentStream(buildRequest(request, !!request.search));
+            for await (const chunk of stream) {
+                const metadata = chunk.candidates?.[0]?.groundingMetadata;
+                yield { text: chunk.text || '', grounding: metadata ? toGrounding(metadata) : undefined };
+            }
+        }
+    };
+}
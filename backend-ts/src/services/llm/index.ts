@@ -0,0 +1,77 @@
+import { createFixtureProvider, fixtureMode } from '../fixtures.js';
+import { createFakeProvider } from './fakeProvider.js';
+import { createGeminiProvider } from './geminiProvider.js';
+import { createOpenAiCompatibleProvider } from './openAiProvider.js';
+import type { LlmModelConfig, LlmProvider, LlmTask } from './types.js';
+
+export type { LlmChunk, LlmGrounding, LlmMessage, LlmModelConfig, LlmProvider, LlmRequest, LlmResponse, LlmSource, LlmStreamRequest, LlmTask } from './types.js';
+export { addGrounding, emptyGrounding } from './types.js';
+export { createFakeProvider, createGeminiProvider, createOpenAiCompatibleProvider };
+
+const DEFAULT_MODELS: Record<string, string> = {
+    gemini: 'gemini-flash-lite-latest',
+    openai: 'llama3.1'
+};
+
+const TASKS: LlmTask[] = ['analyze', 'prices', 'ask', 'summarize', 'repair', 'compare'];
+
+/**
+ * LLM_MODEL sets the default model; LLM_MODEL_ANALYZE, LLM_MODEL_PRICES, LLM_MODEL_ASK,
+ * LLM_MODEL_SUMMARIZE, LLM_MODEL_REPAIR and LLM_MODEL_COMPARE override it per task
+ */
+function modelsFromEnv(providerName: string): LlmModelConfig {
+    const models: LlmModelConfig = { default: process.env.LLM_MODEL || DEFAULT_MODELS[providerName] || '' };
+    for (const task of TASKS) {
+        const override = process.env[`LLM_MODEL_${task.toUpperCase()}`];
+        if (override) models[task] = override;
+    }
+    return models;
+}
+
+/**
+ * Build the provider named by LLM_PROVIDER: gemini (default), openai or fake
+ */
+export function createProviderFromEnv(): LlmProvider {
+    const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const models = modelsFromEnv(name);
+
+    switch (name) {
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                throw new Error('GEMINI_API_KEY environment variable is not set');
+            }
+            return createGeminiProvider({ apiKey, models });
+        }
+        case 'openai':
+            return createOpenAiCompatibleProvider({
+                baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.OPENAI_API_KEY,
+                models
+            });
+        case 'fake':
+            return createFakeProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}" (expected gemini, openai or fake)`);
+    }
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * The configured provider, created on first use. With FIXTURE_MODE set it is wrapped
+ * for record/replay, and in replay mode the real provider is never created.
+ */
+export function getLlmProvider(): LlmProvider {
+    if (!provider) {
+        provider = fixtureMode() === 'off' ? createProviderFromEnv() : createFixtureProvider(createProviderFromEnv);
+    }
+    return provider;
+}
+
+/**
+ * Swap the provider, e.g. for a fake in tests. Pass null to go back to the configured one.
+ */
+export function setLlmProvider(next: LlmProvider | null): void {
+    provider = next;
+}
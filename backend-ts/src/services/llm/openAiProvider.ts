@@ -0,0 +1,92 @@
+import { emptyGrounding, modelFor } from './types.js';
+import type { LlmChunk, LlmModelConfig, LlmProvider, LlmRequest } from './types.js';
+
+export interface OpenAiProviderOptions {
+    // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+    baseUrl: string;
+    apiKey?: string;
+    models: LlmModelConfig;
+}
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+function toMessages(request: LlmRequest): ChatMessage[] {
+    const messages: ChatMessage[] = request.system ? [{ role: 'system', content: request.system }] : [];
+    if (typeof request.prompt === 'string') {
+        messages.push({ role: 'user', content: request.prompt });
+    } else {
+        for (const message of request.prompt) {
+            messages.push({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text });
+        }
+    }
+    return messages;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, llama.cpp, Ollama, vLLM...).
+ * These have no built-in web search, so search requests are answered by the model alone
+ * and come back without sources.
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiProviderOptions): LlmProvider {
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+    async function post(request: LlmRequest, stream: boolean): Promise<Response> {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: modelFor(options.models, request.task),
+                messages: toMessages(request),
+                stream
+            }),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(`LLM server responded ${response.status}: ${body.slice(0, 200)}`);
+        }
+        return response;
+    }
+
+    async function generate(request: LlmRequest) {
+        const response = await post(request, false);
+        const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+        return { text: data.choices?.[0]?.message?.content || '', grounding: emptyGrounding() };
+    }
+
+    return {
+        name: 'openai',
+        generate,
+        generateWithSearch: generate,
+        async *stream(request): AsyncIterable<LlmChunk> {
+            const response = await post(request, true);
+            const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+
+            for (;;) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+
+                // Server-sent events, one `data:` line per delta
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+                    const event = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> };
+                    const text = event.choices?.[0]?.delta?.content;
+                    if (text) yield { text };
+                }
+            }
+        }
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Provider-neutral interface to the language model, so the analysis code
+ * is not tied to one vendor's SDK
+ */
+
+// What a request is for; each task can be routed to a different model
+export type LlmTask = 'analyze' | 'prices' | 'ask' | 'summarize' | 'repair' | 'compare';
+
+export interface LlmMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LlmSource {
+    title: string;
+    uri: string;
+}
+
+export interface LlmRequest {
+    task: LlmTask;
+    // A single user prompt, or a conversation ending with the user's turn
+    prompt: string | LlmMessage[];
+    system?: string;
+    signal?: AbortSignal;
+}
+
+export interface LlmStreamRequest extends LlmRequest {
+    // Ground the answer in web search where the provider supports it
+    search?: boolean;
+}
+
+export interface LlmGrounding {
+    // Web pages the answer was grounded in, unique by URI
+    sources: LlmSource[];
+    // Per-segment confidence that a source supports the text, 0..1
+    supportScores: number[];
+}
+
+export interface LlmResponse {
+    text: string;
+    grounding: LlmGrounding;
+}
+
+// Streamed piece of a response; grounding usually only arrives with the last chunks
+export interface LlmChunk {
+    text: string;
+    grounding?: LlmGrounding;
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    generate(request: LlmRequest): Promise<LlmResponse>;
+    // Providers without web search answer from the model alone, with no sources
+    generateWithSearch(request: LlmRequest): Promise<LlmResponse>;
+    stream(request: LlmStreamRequest): AsyncIterable<LlmChunk>;
+}
+
+// Model per task, falling back to `default`
+export type LlmModelConfig = { default: string } & Partial<Record<LlmTask, string>>;
+
+export function modelFor(models: LlmModelConfig, task: LlmTask): string {
+    return models[task] || models.default;
+}
+
+export function emptyGrounding(): LlmGrounding {
+    return { sources: [], supportScores: [] };
+}
+
+/**
+ * Fold a streamed chunk's grounding into the running total, keeping sources unique
+ */
+export function addGrounding(target: LlmGrounding, extra: LlmGrounding | undefined): void {
+    if (!extra) return;
+    for (const source of extra.sources) {
+        if (!target.sources.some(existing => existing.uri === source.uri)) {
+            target.sources.push(source);
+        }
+    }
+    target.supportScores.push(...extra.supportScores);
+}
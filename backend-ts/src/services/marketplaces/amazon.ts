@@ -0,0 +1,139 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, stripQuery, extractPriceFromJsonLd, extractProductFromJsonLd, parsePrice, parseRatingCount } from './helpers.js';
+import { parseOffers } from '../offers.js';
+
+const ASIN_PATTERN = /\/(?:dp|gp\/product|gp\/aw\/d|product-reviews)\/([A-Z0-9]{10})(?:[/?]|$)/i;
+
+// ============= AMAZON SCRAPER (best effort) =============
+
+function scrapeAmazonPage($: cheerio.CheerioAPI): ScrapedProduct | null {
+    // Try JSON-LD first (most reliable)
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    const title = $('#productTitle').text().trim() ||
+        $('h1.a-size-large').text().trim() ||
+        jsonLdProduct?.title || '';
+
+    if (!title) {
+        console.log('Amazon: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const brand = $('#bylineInfo').text().replace(/^(Visit the |Brand: )/, '').trim() ||
+        $('a#bylineInfo').text().trim() ||
+        jsonLdProduct?.brand || '';
+
+    // Price extraction
+    let currentPrice = 0;
+
+    const priceWhole = $('.a-price-whole').first().text().replace(/[^\d]/g, '');
+    const priceFraction = $('.a-price-fraction').first().text().replace(/[^\d]/g, '');
+    if (priceWhole) {
+        currentPrice = parseFloat(priceWhole + '.' + (priceFraction || '00'));
+    }
+
+    if (currentPrice === 0) {
+        const altPriceSelectors = [
+            '#priceblock_ourprice', '#priceblock_dealprice', '#priceblock_saleprice',
+            '.a-price .a-offscreen', '#corePrice_feature_div .a-offscreen',
+            '#corePriceDisplay_desktop_feature_div .a-offscreen',
+            '.reinventPricePriceToPayMargin .a-offscreen'
+        ];
+        for (const selector of altPriceSelectors) {
+            const priceText = $(selector).first().text().trim();
+            if (priceText) {
+                const parsed = parsePrice(priceText);
+                if (parsed > 0) { currentPrice = parsed; break; }
+            }
+        }
+    }
+
+    if (currentPrice === 0 && jsonLdPrice) {
+        currentPrice = jsonLdPrice.current;
+    }
+
+    const originalPriceStr = $('.a-text-price .a-offscreen').first().text().trim() || '';
+    const originalPrice = parsePrice(originalPriceStr);
+
+    // Images
+    const images: string[] = jsonLdProduct?.images || [];
+    if (images.length === 0) {
+        $('#altImages img, #imageBlock img, #landingImage').each((_, el) => {
+            let src = $(el).attr('data-old-hires') || $(el).attr('src') || '';
+            if ($(el).attr('data-a-dynamic-image')) {
+                try {
+                    const imgData = JSON.parse($(el).attr('data-a-dynamic-image') || '{}');
+                    const urls = Object.keys(imgData);
+                    if (urls.length > 0) src = urls[0];
+                } catch { }
+            }
+            if (src && !images.includes(src) && !src.includes('grey-pixel') && !src.includes('spinner')) {
+                images.push(src);
+            }
+        });
+    }
+
+    // Ratings
+    const ratingText = $('#acrPopover').attr('title') || $('span[data-hook="rating-out-of-text"]').text().trim() || '';
+    const ratingMatch = ratingText.match(/([\d.]+)/);
+    const average = jsonLdProduct?.ratings?.average || (ratingMatch ? parseFloat(ratingMatch[1]) : 0);
+
+    const countText = $('#acrCustomerReviewText').text().trim() || '';
+    const count = jsonLdProduct?.ratings?.count || parseRatingCount(countText);
+
+    // Specifications
+    const specifications: Record<string, string> = {};
+    $('#productDetails_techSpec_section_1 tr, #productDetails_detailBullets_sections1 tr').each((_, el) => {
+        const key = $(el).find('th').text().trim();
+        const value = $(el).find('td').text().trim();
+        if (key && value) specifications[key] = value;
+    });
+
+    // Highlights
+    const highlights: string[] = [];
+    $('#feature-bullets li span.a-list-item').each((_, el) => {
+        const text = $(el).text().trim();
+        if (text && text.length > 10 && text.length < 500 && !text.includes('›')) {
+            highlights.push(text);
+        }
+    });
+
+    // Offers carousel ("Bank Offer", "Cashback", "No Cost EMI" cards) and the coupon badge
+    const offerTexts: string[] = [];
+    $('#vsxoffers_feature_div .offers-items, #itembox-InstantBankDiscount, #itembox-Cashback, #itembox-NoCostEmi').each((_, el) => {
+        const heading = $(el).find('.offers-items-title, h6').first().text().trim();
+        const content = $(el).find('.offers-items-content, .a-truncate-full').first().text().trim();
+        if (content) offerTexts.push(heading ? `${heading}: ${content}` : content);
+    });
+    const coupon = $('label[id^="couponText"], #promoPriceBlockMessage_feature_div label').first().text().trim();
+    if (coupon) offerTexts.push(/coupon/i.test(coupon) ? coupon : `Coupon: ${coupon}`);
+
+    return {
+        title: title || 'Product',
+        brand,
+        price: { current: currentPrice, original: originalPrice > currentPrice ? originalPrice : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: { average, count },
+        highlights: highlights.slice(0, 6),
+        offers: parseOffers(offerTexts)
+    };
+}
+
+export const amazon: MarketplaceAdapter = {
+    name: 'Amazon',
+    hostnames: [/(^|\.)amazon\.[a-z.]+$/i, domain('amzn.in'), domain('amzn.to')],
+    canonicalUrl(url) {
+        const asin = this.extractProductId(url);
+        return asin ? `${url.origin}/dp/${asin}` : stripQuery(url);
+    },
+    extractProductId(url) {
+        const match = url.pathname.match(ASIN_PATTERN);
+        return match ? match[1].toUpperCase() : null;
+    },
+    scrape: scrapeAmazonPage,
+    searchUrl: (query) => `https://www.amazon.in/s?k=${encodeURIComponent(query)}`
+};
@@ -0,0 +1,79 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, extractAvailabilityFromJsonLd, extractPriceFromJsonLd, extractProductFromJsonLd, idAfterP, parsePrice, parseRatingCount, stripQuery, toAbsoluteUrl } from './helpers.js';
+
+// ============= CROMA SCRAPER (best effort) =============
+
+function scrapeCromaPage($: cheerio.CheerioAPI, url: string): ScrapedProduct | null {
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    const title = $('h1.pd-title').first().text().trim() ||
+        $('h1[class*="product-title"]').first().text().trim() ||
+        jsonLdProduct?.title || '';
+
+    if (!title) {
+        console.log('Croma: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    // Croma does not show a brand field; the title always starts with it
+    const brand = jsonLdProduct?.brand || title.split(' ')[0] || '';
+
+    let currentPrice = jsonLdPrice?.current || 0;
+    if (currentPrice === 0) {
+        const priceText = $('#pdp-product-price').first().text().trim() ||
+            $('.pdp-price .amount').first().text().trim() ||
+            $('span.amount').first().text().trim();
+        currentPrice = parsePrice(priceText);
+    }
+
+    const originalPrice = parsePrice(
+        $('#old-price').first().text().trim() || $('.old-price .amount').first().text().trim()
+    );
+
+    const images: string[] = jsonLdProduct?.images || [];
+    if (images.length === 0) {
+        $('.product-img img, .pdp-image-carousel img, .swiper-slide img').each((_, el) => {
+            const src = toAbsoluteUrl($(el).attr('data-src') || $(el).attr('src') || '', url);
+            if (src.startsWith('http') && !images.includes(src)) images.push(src);
+        });
+    }
+
+    const average = jsonLdProduct?.ratings?.average || parseFloat($('.pdp-rating .rating-text').first().text()) || 0;
+    const count = jsonLdProduct?.ratings?.count || parseRatingCount($('.pdp-rating .rating-count').first().text());
+
+    const specifications: Record<string, string> = {};
+    $('.cp-specification-spec-row, .cp-specification li').each((_, el) => {
+        const key = $(el).find('.cp-specification-spec-title, h4').first().text().trim();
+        const value = $(el).find('.cp-specification-spec-details, p').first().text().trim();
+        if (key && value) specifications[key] = value;
+    });
+
+    const highlights: string[] = [];
+    $('.cp-keyfeature li, .key-features-box li').each((_, el) => {
+        const text = $(el).text().trim();
+        if (text && text.length > 5 && text.length < 300) highlights.push(text);
+    });
+
+    return {
+        title,
+        brand,
+        price: { current: currentPrice, original: originalPrice > currentPrice ? originalPrice : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: { average, count },
+        highlights: highlights.length > 0 ? highlights.slice(0, 6) : (jsonLdProduct?.highlights || []),
+        availability: extractAvailabilityFromJsonLd($) ?? ($('.out-of-stock-msg, .pdp-out-of-stock').length > 0 ? 'out-of-stock' : undefined)
+    };
+}
+
+export const croma: MarketplaceAdapter = {
+    name: 'Croma',
+    hostnames: [domain('croma.com')],
+    canonicalUrl: stripQuery,
+    extractProductId: idAfterP,
+    scrape: scrapeCromaPage,
+    searchUrl: (query) => `https://www.croma.com/search/?q=${encodeURIComponent(query)}`
+};
@@ -0,0 +1,105 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, stripQuery, extractPriceFromJsonLd, extractProductFromEmbeddedState, extractProductFromJsonLd, parsePrice } from './helpers.js';
+import { parseOffers } from '../offers.js';
+
+// ============= FLIPKART SCRAPER (best effort) =============
+
+function scrapeFlipkartPage($: cheerio.CheerioAPI): ScrapedProduct | null {
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+    // Flipkart ships its Redux store in window.__INITIAL_STATE__ even when the DOM is skeletal
+    const stateProduct = extractProductFromEmbeddedState($);
+
+    const title = $('span.VU-ZEz').text().trim() ||
+        $('span.B_NuCI').text().trim() ||
+        $('h1.yhB1nd span').text().trim() ||
+        jsonLdProduct?.title || stateProduct?.title || '';
+
+    if (!title) {
+        console.log('Flipkart: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const brand = $('span._2WkVRV').text().trim() || jsonLdProduct?.brand || stateProduct?.brand || '';
+
+    let currentPrice = 0;
+    const priceSelectors = [
+        'div.Nx9bqj.CxhGGd', 'div.Nx9bqj', 'div._30jeq3._16Jk6d', 'div._30jeq3'
+    ];
+    for (const selector of priceSelectors) {
+        const priceText = $(selector).first().text().trim();
+        if (priceText) {
+            const parsed = parsePrice(priceText);
+            if (parsed > 0) { currentPrice = parsed; break; }
+        }
+    }
+    if (currentPrice === 0 && jsonLdPrice) {
+        currentPrice = jsonLdPrice.current;
+    }
+    if (currentPrice === 0 && stateProduct?.price) {
+        currentPrice = stateProduct.price.current;
+    }
+
+    const images: string[] = jsonLdProduct?.images || stateProduct?.images || [];
+    if (images.length === 0) {
+        $('img._0DkuPH, img._396cs4, img.q6DClP').each((_, el) => {
+            let src = $(el).attr('src') || '';
+            if (src.includes('/128/')) src = src.replace('/128/', '/832/');
+            if (src.includes('/416/')) src = src.replace('/416/', '/832/');
+            if (src && !images.includes(src) && src.includes('rukminim')) images.push(src);
+        });
+    }
+
+    const ratingText = $('div.XQDdHH').text().trim() || $('div._3LWZlK').first().text().trim() || '';
+    const average = jsonLdProduct?.ratings?.average || (parseFloat(ratingText) || 0) || stateProduct?.ratings?.average || 0;
+
+    const specifications: Record<string, string> = { ...stateProduct?.specifications };
+    $('div._4gvKMe table tr, div.GNDEQ- table tr').each((_, el) => {
+        const key = $(el).find('td:first-child').text().trim();
+        const value = $(el).find('td:last-child').text().trim();
+        if (key && value) specifications[key] = value;
+    });
+
+    const highlights: string[] = [];
+    $('li._7eSDEz, li.rgWa7D').each((_, el) => {
+        const text = $(el).text().trim();
+        if (text && text.length > 5 && text.length < 300) highlights.push(text);
+    });
+
+    // "Available offers" list: "Bank Offer10% off on ... Credit Card, up to ₹1,500 on orders of ₹5,000 and aboveT&C"
+    const offerTexts: string[] = [];
+    $('li.kF1Ml8, li._16eBzU').each((_, el) => {
+        offerTexts.push($(el).text().trim());
+    });
+
+    return {
+        title: title || 'Product',
+        brand,
+        price: { current: currentPrice, original: stateProduct?.price?.original, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: { average, count: jsonLdProduct?.ratings?.count || stateProduct?.ratings?.count || 0 },
+        highlights: (highlights.length > 0 ? highlights : stateProduct?.highlights || []).slice(0, 6),
+        offers: parseOffers(offerTexts)
+    };
+}
+
+export const flipkart: MarketplaceAdapter = {
+    name: 'Flipkart',
+    hostnames: [domain('flipkart.com')],
+    canonicalUrl(url) {
+        const pid = this.extractProductId(url);
+        return pid ? `${url.origin}${url.pathname}?pid=${pid}` : stripQuery(url);
+    },
+    extractProductId(url) {
+        const pid = url.searchParams.get('pid');
+        if (pid) return pid.toUpperCase();
+        // Fall back to the listing item ID from paths like /<slug>/p/itm0123abcd
+        const match = url.pathname.match(/\/p\/(itm[a-z0-9]+)/i);
+        return match ? match[1] : null;
+    },
+    scrape: scrapeFlipkartPage,
+    searchUrl: (query) => `https://www.flipkart.com/search?q=${encodeURIComponent(query)}`
+};
@@ -0,0 +1,500 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { PriceData } from '../../types/index.js';
+
+// ============= URL helpers =============
+
+/**
+ * Build a hostname matcher for a registrable domain, including its subdomains
+ */
+export function domain(name: string): RegExp {
+    return new RegExp(`(^|\\.)${name.replace(/\./g, '\\.')}$`, 'i');
+}
+
+/**
+ * Default canonical form: origin + path, no query string, hash or trailing slash
+ */
+export function stripQuery(url: URL): string {
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Product ID from paths shaped like `/<slug>/p/<id>`
+ */
+export function idAfterP(url: URL): string | null {
+    const match = url.pathname.match(/\/p\/([A-Za-z0-9]+)/);
+    return match ? match[1] : null;
+}
+
+// ============= Page parsing helpers =============
+
+/**
+ * Parse price string to number.
+ * Handles Indian formats like ₹1,23,499 and ₹1,23,499.00
+ */
+export function parsePrice(priceStr: string): number {
+    if (!priceStr) return 0;
+
+    let cleaned = priceStr
+        .replace(/[₹$€£]/g, '')
+        .replace(/MRP:?/gi, '')
+        .replace(/Rs\.?/gi, '')
+        .replace(/INR/gi, '')
+        .replace(/,/g, '')
+        .trim();
+
+    const match = cleaned.match(/(\d+\.?\d*)/);
+    if (!match) return 0;
+
+    const price = parseFloat(match[1]);
+    return isNaN(price) ? 0 : Math.round(price * 100) / 100;
+}
+
+/**
+ * Parse rating count string to number
+ */
+export function parseRatingCount(countStr: string): number {
+    if (!countStr) return 0;
+    const cleaned = countStr.replace(/[,\s]/g, '').toLowerCase();
+    const match = cleaned.match(/([\d.]+)([km]?)/);
+    if (!match) return 0;
+
+    let count = parseFloat(match[1]);
+    if (match[2] === 'k') count *= 1000;
+    if (match[2] === 'm') count *= 1000000;
+    return Math.round(count);
+}
+
+/**
+ * Extract price from JSON-LD structured data (most reliable for SSR pages)
+ */
+export function extractPriceFromJsonLd($: cheerio.CheerioAPI): { current: number; original?: number } | null {
+    try {
+        const scripts = $('script[type="application/ld+json"]');
+        for (let i = 0; i < scripts.length; i++) {
+            const scriptContent = $(scripts[i]).html();
+            if (!scriptContent) continue;
+
+            try {
+                const jsonData = JSON.parse(scriptContent);
+                const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+
+                for (const item of items) {
+                    if (item['@type'] === 'Product' || item['@type']?.includes?.('Product')) {
+                        const offers = item.offers;
+                        if (offers) {
+                            const offerList = Array.isArray(offers) ? offers : [offers];
+                            for (const offer of offerList) {
+                                const price = offer.price || offer.lowPrice;
+                                if (price && !isNaN(parseFloat(price))) {
+                                    return {
+                                        current: parseFloat(price),
+                                        original: offer.highPrice ? parseFloat(offer.highPrice) : undefined
+                                    };
+                                }
+                            }
+                        }
+                    }
+                }
+            } catch {
+                continue;
+            }
+        }
+    } catch (error) {
+        console.log('JSON-LD extraction failed:', error);
+    }
+    return null;
+}
+
+/**
+ * Read stock status from page text or a schema.org ItemAvailability value
+ * ("https://schema.org/OutOfStock"), or undefined if it says neither
+ */
+export function parseAvailability(text: string): PriceData['availability'] | undefined {
+    if (/out\s*of\s*stock|sold\s*out|discontinued|unavailable/i.test(text)) return 'out-of-stock';
+    if (/limited|only \d+ left|few left/i.test(text)) return 'limited';
+    if (/in\s*stock|available/i.test(text)) return 'in-stock';
+    return undefined;
+}
+
+/**
+ * Extract stock status from the offers in JSON-LD structured data
+ */
+export function extractAvailabilityFromJsonLd($: cheerio.CheerioAPI): PriceData['availability'] | undefined {
+    const scripts = $('script[type="application/ld+json"]');
+    for (let i = 0; i < scripts.length; i++) {
+        const scriptContent = $(scripts[i]).html();
+        if (!scriptContent) continue;
+
+        try {
+            const jsonData = JSON.parse(scriptContent);
+            const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+
+            for (const item of items) {
+                if (item['@type'] === 'Product' || item['@type']?.includes?.('Product')) {
+                    const offerList = Array.isArray(item.offers) ? item.offers : [item.offers];
+                    for (const offer of offerList) {
+                        const availability = typeof offer?.availability === 'string' ? parseAvailability(offer.availability) : undefined;
+                        if (availability) return availability;
+                    }
+                }
+            }
+        } catch {
+            continue;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Extract product data from JSON-LD structured data.
+ * This is the most reliable way to get data from SSR pages.
+ */
+export function extractProductFromJsonLd($: cheerio.CheerioAPI): Partial<ScrapedProduct> | null {
+    try {
+        const scripts = $('script[type="application/ld+json"]');
+        for (let i = 0; i < scripts.length; i++) {
+            const scriptContent = $(scripts[i]).html();
+            if (!scriptContent) continue;
+
+            try {
+                const jsonData = JSON.parse(scriptContent);
+                const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+
+                for (const item of items) {
+                    if (item['@type'] === 'Product' || item['@type']?.includes?.('Product')) {
+                        const result: Partial<ScrapedProduct> = {};
+
+                        if (item.name) result.title = item.name;
+                        if (item.brand?.name) result.brand = item.brand.name;
+                        else if (typeof item.brand === 'string') result.brand = item.brand;
+
+                        // Images
+                        if (item.image) {
+                            const imgs = Array.isArray(item.image) ? item.image : [item.image];
+                            result.images = imgs.filter((img: unknown): img is string => typeof img === 'string' && img.startsWith('http'));
+                        }
+
+                        // Rating
+                        if (item.aggregateRating) {
+                            result.ratings = {
+                                average: parseFloat(item.aggregateRating.ratingValue) || 0,
+                                count: parseInt(item.aggregateRating.reviewCount || item.aggregateRating.ratingCount) || 0
+                            };
+                        }
+
+                        // Description as highlight
+                        if (item.description) {
+                            result.highlights = [item.description.substring(0, 200)];
+                        }
+
+                        return result;
+                    }
+                }
+            } catch {
+                continue;
+            }
+        }
+    } catch {
+        // ignore
+    }
+    return null;
+}
+
+/**
+ * Read one balanced JSON object or array starting at `start`, honouring strings and escapes
+ */
+function readBalancedJson(text: string, start: number): string | null {
+    const open = text[start];
+    const close = open === '{' ? '}' : open === '[' ? ']' : null;
+    if (!close) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === open) depth++;
+        else if (ch === close) {
+            depth--;
+            if (depth === 0) return text.slice(start, i + 1);
+        }
+    }
+    return null;
+}
+
+/**
+ * Extract a JSON blob embedded in an inline script, either as a
+ * `<script id="name" type="application/json">` tag (e.g. __NEXT_DATA__) or as a
+ * `window.name = {...}` assignment (e.g. window.__INITIAL_STATE__, window.__myx).
+ */
+export function extractEmbeddedJson($: cheerio.CheerioAPI, name: string): unknown {
+    const tagContent = $(`script#${name}`).html();
+    if (tagContent) {
+        try {
+            return JSON.parse(tagContent);
+        } catch {
+            // Fall through to the assignment scan
+        }
+    }
+
+    const assignment = new RegExp(`(?:window\\.)?${name.replace(/\$/g, '\\$')}\\s*=\\s*`);
+    const scripts = $('script:not([src])');
+    for (let i = 0; i < scripts.length; i++) {
+        const content = $(scripts[i]).html();
+        if (!content || !content.includes(name)) continue;
+
+        const match = assignment.exec(content);
+        if (!match) continue;
+
+        const raw = readBalancedJson(content, match.index + match[0].length);
+        if (!raw) continue;
+
+        try {
+            return JSON.parse(raw);
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolve protocol-relative and relative image URLs against the page URL
+ */
+export function toAbsoluteUrl(src: string, pageUrl: string): string {
+    if (!src) return '';
+    try {
+        return new URL(src.trim(), pageUrl).toString();
+    } catch {
+        return '';
+    }
+}
+
+// ============= Embedded state extraction =============
+
+// Inline script blobs that JS-rendered storefronts hydrate from
+const EMBEDDED_STATE_NAMES = ['__NEXT_DATA__', '__INITIAL_STATE__', '__PRELOADED_STATE__', '__myx', '__APOLLO_STATE__'];
+
+const TITLE_KEYS = ['productName', 'product_name', 'displayName', 'name', 'title'];
+const PRICE_KEYS = ['sellingPrice', 'selling_price', 'finalPrice', 'discountedPrice', 'discounted', 'specialPrice', 'offerPrice', 'salePrice', 'price'];
+const MRP_KEYS = ['mrp', 'originalPrice', 'original_price', 'listPrice', 'maximumRetailPrice', 'strikeOffPrice'];
+const IMAGE_KEYS = ['images', 'imageUrls', 'image_urls', 'media', 'gallery'];
+const SPEC_KEYS = ['specifications', 'articleAttributes', 'attributes', 'specs'];
+const HIGHLIGHT_KEYS = ['highlights', 'keyFeatures', 'key_features', 'features'];
+
+// Upper bound on nodes visited per blob; Redux states can be huge
+const MAX_STATE_NODES = 20000;
+
+// An object in a state blob, whose fields are only trusted after a type check
+type StateNode = Record<string, unknown>;
+
+function isRecord(value: unknown): value is StateNode {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Value of the first of `keys` that is set on the node
+ */
+function firstDefined(node: StateNode, keys: string[]): unknown {
+    for (const key of keys) {
+        if (node[key] !== undefined && node[key] !== null) return node[key];
+    }
+    return undefined;
+}
+
+/**
+ * Read a price that may be a number, a formatted string or a `{ value }`-style object
+ */
+function readPrice(value: unknown, depth = 0): number {
+    if (typeof value === 'number') return value > 0 ? value : 0;
+    if (typeof value === 'string') return parsePrice(value);
+    if (isRecord(value) && depth < 2) {
+        for (const key of ['value', 'amount', 'decimalValue', 'discounted', 'selling', 'final']) {
+            const price = readPrice(value[key], depth + 1);
+            if (price > 0) return price;
+        }
+    }
+    return 0;
+}
+
+/**
+ * First positive price under any of the keys, on the node itself or its price/pricing object
+ */
+function firstPrice(node: StateNode, keys: string[]): number {
+    const sources = [node, node.pricing, node.price].filter(isRecord);
+    for (const source of sources) {
+        for (const key of keys) {
+            const price = readPrice(source[key]);
+            if (price > 0) return price;
+        }
+    }
+    return 0;
+}
+
+function readTitle(node: StateNode): string {
+    for (const key of TITLE_KEYS) {
+        const value = node[key];
+        if (typeof value === 'string' && value.trim().length >= 3 && value.length <= 300) return value.trim();
+    }
+    return '';
+}
+
+function readImages(node: StateNode): string[] {
+    const images: string[] = [];
+    const visit = (value: unknown, depth: number) => {
+        if (depth > 3 || images.length >= 6) return;
+        if (typeof value === 'string') {
+            if (/^https?:\/\//.test(value) && !images.includes(value)) images.push(value);
+        } else if (Array.isArray(value)) {
+            value.forEach(v => visit(v, depth + 1));
+        } else if (isRecord(value)) {
+            for (const key of ['url', 'imageURL', 'imageUrl', 'src', 'images', 'albums']) {
+                if (key in value) visit(value[key], depth + 1);
+            }
+        }
+    };
+    for (const key of IMAGE_KEYS) visit(node[key], 0);
+    return images;
+}
+
+function readRatings(node: StateNode): { average: number; count: number } | undefined {
+    const rating = firstDefined(node, ['rating', 'ratings', 'aggregateRating', 'review_summary']);
+    const source: StateNode = isRecord(rating) ? { ...node, ...rating } : node;
+
+    const average = Number(
+        typeof rating === 'number'
+            ? rating
+            : firstDefined(source, ['averageRating', 'average_rating', 'average', 'ratingValue', 'value'])
+    ) || 0;
+    const count = Number(
+        firstDefined(source, ['ratingCount', 'rating_count', 'ratingsCount', 'reviewCount', 'totalCount', 'count'])
+    ) || 0;
+
+    return average > 0 && average <= 5 ? { average, count } : undefined;
+}
+
+function readSpecifications(node: StateNode): Record<string, string> {
+    const specifications: Record<string, string> = {};
+    for (const key of SPEC_KEYS) {
+        const value = node[key];
+        if (isRecord(value)) {
+            for (const [name, spec] of Object.entries(value)) {
+                if ((typeof spec === 'string' || typeof spec === 'number') && String(spec) && spec !== 'NA') {
+                    specifications[name] = String(spec);
+                }
+            }
+        } else if (Array.isArray(value)) {
+            for (const item of value) {
+                if (!isRecord(item)) continue;
+                const name = firstDefined(item, ['name', 'key', 'title', 'display_name']);
+                const spec = Array.isArray(item.value) ? item.value.join(', ') : item.value;
+                if (typeof name === 'string' && (typeof spec === 'string' || typeof spec === 'number') && String(spec)) {
+                    specifications[name] = String(spec);
+                }
+            }
+        }
+        if (Object.keys(specifications).length > 0) break;
+    }
+    return specifications;
+}
+
+function readHighlights(node: StateNode): string[] {
+    for (const key of HIGHLIGHT_KEYS) {
+        const value = node[key];
+        if (Array.isArray(value)) {
+            const texts = value
+                .map((v: unknown) => (typeof v === 'string' ? v : isRecord(v) ? firstDefined(v, ['text', 'value', 'description']) : undefined))
+                .filter((t): t is string => typeof t === 'string' && t.trim().length > 5)
+                .map(t => t.trim().substring(0, 300));
+            if (texts.length > 0) return texts.slice(0, 6);
+        }
+    }
+    return [];
+}
+
+/**
+ * How product-like a state node is: it needs a title and a price, extra fields break ties
+ */
+function scoreProductNode(node: StateNode): number {
+    if (!readTitle(node) || firstPrice(node, PRICE_KEYS) === 0) return 0;
+
+    let score = 5;
+    if (readImages(node).length > 0) score++;
+    if (readRatings(node)) score++;
+    if (node.brand) score++;
+    if (Object.keys(readSpecifications(node)).length > 0) score++;
+    return score;
+}
+
+/**
+ * Breadth-first search for the most product-like object, so shallower nodes win ties
+ */
+function findProductNode(state: unknown): StateNode | null {
+    let best: StateNode | null = null;
+    let bestScore = 0;
+    let visited = 0;
+
+    // Read through an index rather than shift(), which would copy the queue on every node
+    const queue: unknown[] = [state];
+    const seen = new Set<unknown>();
+    for (let head = 0; head < queue.length && visited < MAX_STATE_NODES; head++) {
+        const node = queue[head];
+        if (typeof node !== 'object' || node === null || seen.has(node)) continue;
+        seen.add(node);
+        visited++;
+
+        if (isRecord(node)) {
+            const score = scoreProductNode(node);
+            if (score > bestScore) {
+                best = node;
+                bestScore = score;
+            }
+        }
+        for (const child of Object.values(node)) {
+            if (typeof child === 'object' && child !== null) queue.push(child);
+        }
+    }
+    return best;
+}
+
+/**
+ * Extract product data from state blobs embedded by JS-rendered storefronts
+ * (window.__INITIAL_STATE__, __NEXT_DATA__, window.__myx, ...).
+ * Works without a headless browser because the data ships inside the initial HTML.
+ */
+export function extractProductFromEmbeddedState($: cheerio.CheerioAPI): Partial<ScrapedProduct> | null {
+    for (const name of EMBEDDED_STATE_NAMES) {
+        const state = extractEmbeddedJson($, name);
+        if (!state) continue;
+
+        const node = findProductNode(state);
+        if (!node) continue;
+
+        const current = firstPrice(node, PRICE_KEYS);
+        const original = firstPrice(node, MRP_KEYS);
+        const brand = typeof node.brand === 'string'
+            ? node.brand
+            : (isRecord(node.brand) ? node.brand.name : undefined) ?? firstDefined(node, ['brandName', 'brand_name']);
+
+        const result: Partial<ScrapedProduct> = {
+            title: readTitle(node),
+            price: { current, original: original > current ? original : undefined, currency: 'INR' },
+            images: readImages(node),
+            specifications: readSpecifications(node),
+            highlights: readHighlights(node)
+        };
+        if (typeof brand === 'string' && brand) result.brand = brand;
+
+        const ratings = readRatings(node);
+        if (ratings) result.ratings = ratings;
+
+        return result;
+    }
+    return null;
+}
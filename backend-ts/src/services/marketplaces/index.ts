@@ -0,0 +1,46 @@
+import type { MarketplaceAdapter } from './types.js';
+import { amazon } from './amazon.js';
+import { flipkart } from './flipkart.js';
+import { myntra } from './myntra.js';
+import { meesho } from './meesho.js';
+import { croma } from './croma.js';
+import { relianceDigital } from './relianceDigital.js';
+import { jiomart } from './jiomart.js';
+
+export type { MarketplaceAdapter } from './types.js';
+
+// Registration order is also the order stores are suggested in search-link fallbacks
+const registry: MarketplaceAdapter[] = [amazon, flipkart, myntra, meesho, croma, relianceDigital, jiomart];
+
+export function registerMarketplace(adapter: MarketplaceAdapter): void {
+    const existing = registry.findIndex(m => m.name === adapter.name);
+    if (existing >= 0) {
+        registry[existing] = adapter;
+    } else {
+        registry.push(adapter);
+    }
+}
+
+export function listMarketplaces(): readonly MarketplaceAdapter[] {
+    return registry;
+}
+
+/**
+ * Find the adapter whose hostname matchers accept the URL
+ */
+export function findMarketplace(url: string): MarketplaceAdapter | null {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+    return registry.find(m => m.hostnames.some(pattern => pattern.test(hostname))) ?? null;
+}
+
+/**
+ * Marketplace display name for a URL, or 'Generic' for unknown stores
+ */
+export function detectMarketplace(url: string): string {
+    return findMarketplace(url)?.name ?? 'Generic';
+}
@@ -0,0 +1,81 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, extractAvailabilityFromJsonLd, extractPriceFromJsonLd, extractProductFromJsonLd, parsePrice, parseRatingCount, stripQuery, toAbsoluteUrl } from './helpers.js';
+
+// ============= JIOMART SCRAPER (best effort) =============
+
+function scrapeJioMartPage($: cheerio.CheerioAPI, url: string): ScrapedProduct | null {
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    const title = $('#pdp_product_name').first().text().trim() ||
+        $('.product-header-name').first().text().trim() ||
+        jsonLdProduct?.title || '';
+
+    if (!title) {
+        console.log('JioMart: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const brand = jsonLdProduct?.brand || $('#top_brand_name, .product-header-brand-name').first().text().trim() || '';
+
+    let currentPrice = jsonLdPrice?.current || 0;
+    if (currentPrice === 0) {
+        currentPrice = parsePrice(
+            $('#price_section .jm-heading-xs').first().text().trim() || $('.product-price .final-price').first().text().trim()
+        );
+    }
+
+    const originalPrice = parsePrice(
+        $('#price_section .line-through').first().text().trim() || $('.product-price .mrp-price').first().text().trim()
+    );
+
+    const images: string[] = jsonLdProduct?.images || [];
+    if (images.length === 0) {
+        $('.product-image-carousel img, .swiper-thumb-slides img, #imageSlider img').each((_, el) => {
+            const src = toAbsoluteUrl($(el).attr('data-src') || $(el).attr('src') || '', url);
+            if (src.startsWith('http') && !images.includes(src)) images.push(src);
+        });
+    }
+
+    const average = jsonLdProduct?.ratings?.average || parseFloat($('.product-rating .rating').first().text()) || 0;
+    const count = jsonLdProduct?.ratings?.count || parseRatingCount($('.product-rating .rating-count').first().text());
+
+    const specifications: Record<string, string> = {};
+    $('.product-specifications-table tr, table.product-specifications tr').each((_, el) => {
+        const key = $(el).find('th, td:first-child').first().text().trim();
+        const value = $(el).find('td').last().text().trim();
+        if (key && value && key !== value) specifications[key] = value;
+    });
+
+    const highlights: string[] = [];
+    $('.product-key-features li, #pdp_key_features li').each((_, el) => {
+        const text = $(el).text().trim();
+        if (text && text.length > 5 && text.length < 300) highlights.push(text);
+    });
+
+    return {
+        title,
+        brand,
+        price: { current: currentPrice, original: originalPrice > currentPrice ? originalPrice : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: { average, count },
+        highlights: highlights.length > 0 ? highlights.slice(0, 6) : (jsonLdProduct?.highlights || []),
+        availability: extractAvailabilityFromJsonLd($) ?? ($('#pdp_out_of_stock, .out-of-stock').length > 0 ? 'out-of-stock' : undefined)
+    };
+}
+
+export const jiomart: MarketplaceAdapter = {
+    name: 'JioMart',
+    hostnames: [domain('jiomart.com')],
+    canonicalUrl: stripQuery,
+    extractProductId(url) {
+        // Product pages end with the numeric item code: /p/<category>/<slug>/<code>
+        const match = url.pathname.match(/\/p\/.*\/(\d+)\/?$/);
+        return match ? match[1] : null;
+    },
+    scrape: scrapeJioMartPage,
+    searchUrl: (query) => `https://www.jiomart.com/search/${encodeURIComponent(query)}`
+};
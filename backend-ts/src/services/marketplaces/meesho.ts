@@ -0,0 +1,108 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, extractAvailabilityFromJsonLd, extractEmbeddedJson, extractPriceFromJsonLd, extractProductFromJsonLd, idAfterP, parsePrice, stripQuery } from './helpers.js';
+
+// ============= MEESHO SCRAPER (best effort) =============
+
+interface MeeshoAttribute {
+    display_name?: string;
+    name?: string;
+    value?: string | number | string[];
+}
+
+// The parts of the product details we read; every field may be missing
+interface MeeshoProductDetails {
+    name?: string;
+    brand_name?: string;
+    images?: unknown[];
+    product_highlights?: { attributes?: MeeshoAttribute[] };
+    attributes?: MeeshoAttribute[];
+    price?: number | string;
+    min_product_price?: number | string;
+    mrp_details?: { mrp?: number | string };
+    original_price?: number | string;
+    review_summary?: { data?: { average_rating?: number | string; rating_count?: number | string } };
+    description?: unknown;
+    in_stock?: boolean;
+}
+
+interface MeeshoNextData {
+    props?: { pageProps?: { initialState?: { product?: { details?: { data?: MeeshoProductDetails } } } } };
+}
+
+/**
+ * Meesho is a Next.js app; the product sits in the Redux state inside __NEXT_DATA__
+ */
+function scrapeFromNextData(nextData: MeeshoNextData | null): ScrapedProduct | null {
+    const details = nextData?.props?.pageProps?.initialState?.product?.details?.data;
+    if (!details?.name) return null;
+
+    const images = (Array.isArray(details.images) ? details.images : [])
+        .filter((img): img is string => typeof img === 'string' && img.startsWith('http'));
+
+    const specifications: Record<string, string> = {};
+    for (const attr of details.product_highlights?.attributes || details.attributes || []) {
+        const key = attr?.display_name || attr?.name;
+        const value = Array.isArray(attr?.value) ? attr.value.join(', ') : attr?.value;
+        if (key && value) specifications[key] = String(value);
+    }
+
+    const current = Number(details.price ?? details.min_product_price) || 0;
+    const original = Number(details.mrp_details?.mrp ?? details.original_price) || 0;
+    const reviews = details.review_summary?.data || {};
+
+    return {
+        title: details.name,
+        brand: details.brand_name || '',
+        price: { current, original: original > current ? original : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: {
+            average: Number(reviews.average_rating) || 0,
+            count: Number(reviews.rating_count) || 0
+        },
+        highlights: typeof details.description === 'string'
+            ? details.description.split('\n').map(line => line.trim()).filter(line => line.length > 5).slice(0, 6)
+            : [],
+        availability: details.in_stock === false ? 'out-of-stock' : 'in-stock'
+    };
+}
+
+function scrapeMeeshoPage($: cheerio.CheerioAPI): ScrapedProduct | null {
+    const fromState = scrapeFromNextData(extractEmbeddedJson($, '__NEXT_DATA__') as MeeshoNextData | null);
+    if (fromState) return fromState;
+
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    // Meesho's class names are generated, so only structural selectors are stable
+    const title = jsonLdProduct?.title || $('h1').first().text().trim() || '';
+
+    if (!title) {
+        console.log('Meesho: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const currentPrice = jsonLdPrice?.current || parsePrice($('h4').filter((_, el) => $(el).text().includes('₹')).first().text());
+
+    return {
+        title,
+        brand: jsonLdProduct?.brand || '',
+        price: { current: currentPrice, original: jsonLdPrice?.original, currency: 'INR' },
+        images: (jsonLdProduct?.images || []).slice(0, 6),
+        specifications: {},
+        ratings: jsonLdProduct?.ratings || { average: 0, count: 0 },
+        highlights: jsonLdProduct?.highlights || [],
+        availability: extractAvailabilityFromJsonLd($)
+    };
+}
+
+export const meesho: MarketplaceAdapter = {
+    name: 'Meesho',
+    hostnames: [domain('meesho.com')],
+    canonicalUrl: stripQuery,
+    extractProductId: idAfterP,
+    scrape: scrapeMeeshoPage,
+    searchUrl: (query) => `https://www.meesho.com/search?q=${encodeURIComponent(query)}`
+};
@@ -0,0 +1,129 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, extractAvailabilityFromJsonLd, extractEmbeddedJson, extractPriceFromJsonLd, extractProductFromJsonLd, parsePrice, parseRatingCount, stripQuery } from './helpers.js';
+
+// ============= MYNTRA SCRAPER (best effort) =============
+
+// The parts of `window.__myx.pdpData` we read; every field may be missing
+interface MyntraPdpData {
+    name?: string;
+    brand?: { name?: string };
+    mrp?: number | string;
+    price?: { mrp?: number | string; discounted?: number | string };
+    media?: { albums?: Array<{ images?: Array<{ imageURL?: unknown; src?: unknown }> }> };
+    articleAttributes?: Record<string, unknown>;
+    productDetails?: Array<{ description?: unknown }>;
+    descriptors?: Array<{ description?: unknown }>;
+    ratings?: { averageRating?: number | string; totalCount?: number | string };
+    flags?: { outOfStock?: boolean };
+    sizes?: Array<{ available?: boolean }>;
+}
+
+interface MyntraState {
+    pdpData?: MyntraPdpData;
+}
+
+/**
+ * Myntra renders client-side but ships the full product in `window.__myx.pdpData`
+ */
+function scrapeFromPdpData(pdp: MyntraPdpData | undefined): ScrapedProduct | null {
+    if (!pdp?.name) return null;
+
+    const images: string[] = [];
+    for (const album of pdp.media?.albums || []) {
+        for (const image of album.images || []) {
+            const src = image.imageURL || image.src;
+            if (typeof src === 'string' && src.startsWith('http') && !images.includes(src)) images.push(src);
+        }
+    }
+
+    const specifications: Record<string, string> = {};
+    for (const [key, value] of Object.entries(pdp.articleAttributes || {})) {
+        if (typeof value === 'string' && value && value !== 'NA') specifications[key] = value;
+    }
+
+    const highlights: string[] = [];
+    for (const detail of [...(pdp.productDetails || []), ...(pdp.descriptors || [])]) {
+        const text = typeof detail?.description === 'string'
+            ? detail.description.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+            : '';
+        if (text && text.length > 5) highlights.push(text.substring(0, 300));
+    }
+
+    const current = Number(pdp.price?.discounted || pdp.price?.mrp || pdp.mrp) || 0;
+    const original = Number(pdp.price?.mrp || pdp.mrp) || 0;
+    // Clothing is out of stock once every size is
+    const soldOut = pdp.flags?.outOfStock || (!!pdp.sizes?.length && pdp.sizes.every(size => size.available === false));
+
+    return {
+        title: pdp.name,
+        brand: pdp.brand?.name || '',
+        price: { current, original: original > current ? original : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: {
+            average: Number(pdp.ratings?.averageRating) || 0,
+            count: Number(pdp.ratings?.totalCount) || 0
+        },
+        highlights: highlights.slice(0, 6),
+        availability: soldOut ? 'out-of-stock' : 'in-stock'
+    };
+}
+
+function scrapeMyntraPage($: cheerio.CheerioAPI): ScrapedProduct | null {
+    const fromState = scrapeFromPdpData((extractEmbeddedJson($, '__myx') as MyntraState | null)?.pdpData);
+    if (fromState) return fromState;
+
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    const title = $('h1.pdp-name').first().text().trim() || jsonLdProduct?.title || '';
+
+    if (!title) {
+        console.log('Myntra: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const brand = $('h1.pdp-title').first().text().trim() || jsonLdProduct?.brand || '';
+
+    const currentPrice = parsePrice($('.pdp-price strong').first().text().trim()) || jsonLdPrice?.current || 0;
+    const originalPrice = parsePrice($('.pdp-mrp s').first().text().trim());
+
+    const specifications: Record<string, string> = {};
+    $('.index-tableContainer .index-row').each((_, el) => {
+        const key = $(el).find('.index-rowKey').text().trim();
+        const value = $(el).find('.index-rowValue').text().trim();
+        if (key && value) specifications[key] = value;
+    });
+
+    return {
+        title,
+        brand,
+        price: { current: currentPrice, original: originalPrice > currentPrice ? originalPrice : undefined, currency: 'INR' },
+        images: (jsonLdProduct?.images || []).slice(0, 6),
+        specifications,
+        ratings: {
+            average: jsonLdProduct?.ratings?.average || parseFloat($('.index-overallRating div').first().text()) || 0,
+            count: jsonLdProduct?.ratings?.count || parseRatingCount($('.index-ratingsCount').first().text())
+        },
+        highlights: jsonLdProduct?.highlights || [],
+        availability: extractAvailabilityFromJsonLd($) ?? ($('.size-buttons-out-of-stock, .pdp-out-of-stock').length > 0 ? 'out-of-stock' : undefined)
+    };
+}
+
+export const myntra: MarketplaceAdapter = {
+    name: 'Myntra',
+    hostnames: [domain('myntra.com')],
+    canonicalUrl(url) {
+        const id = this.extractProductId(url);
+        return id ? `${url.origin}/${id}` : stripQuery(url);
+    },
+    extractProductId(url) {
+        // Product pages look like /<category>/<brand>/<slug>/<style id>/buy
+        const match = url.pathname.match(/\/(\d{5,})(?:\/buy)?\/?$/);
+        return match ? match[1] : null;
+    },
+    scrape: scrapeMyntraPage,
+    searchUrl: (query) => `https://www.myntra.com/${encodeURIComponent(query).replace(/%20/g, '-')}`
+};
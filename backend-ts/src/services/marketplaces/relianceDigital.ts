@@ -0,0 +1,77 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+import type { MarketplaceAdapter } from './types.js';
+import { domain, extractAvailabilityFromJsonLd, extractPriceFromJsonLd, extractProductFromJsonLd, idAfterP, parsePrice, parseRatingCount, stripQuery, toAbsoluteUrl } from './helpers.js';
+
+// ============= RELIANCE DIGITAL SCRAPER (best effort) =============
+
+function scrapeRelianceDigitalPage($: cheerio.CheerioAPI, url: string): ScrapedProduct | null {
+    const jsonLdProduct = extractProductFromJsonLd($);
+    const jsonLdPrice = extractPriceFromJsonLd($);
+
+    const title = $('h1.pdp__title').first().text().trim() ||
+        $('.product-name h1, h1.product-name').first().text().trim() ||
+        jsonLdProduct?.title || '';
+
+    if (!title) {
+        console.log('Reliance Digital: Could not extract title, page likely needs JS rendering');
+        return null;
+    }
+
+    const brand = jsonLdProduct?.brand || $('.pdp__brand, .product-brand').first().text().trim() || '';
+
+    let currentPrice = jsonLdPrice?.current || 0;
+    if (currentPrice === 0) {
+        currentPrice = parsePrice(
+            $('.pdp__offerPrice').first().text().trim() || $('.product-price .amount, .product-price').first().text().trim()
+        );
+    }
+
+    const originalPrice = parsePrice(
+        $('.pdp__mrpPrice').first().text().trim() || $('.product-marked-price, .mrp-amount').first().text().trim()
+    );
+
+    const images: string[] = jsonLdProduct?.images || [];
+    if (images.length === 0) {
+        $('.pdp__imgCarousel img, .image-gallery img, .product-image img').each((_, el) => {
+            const src = toAbsoluteUrl($(el).attr('data-srcset')?.split(' ')[0] || $(el).attr('src') || '', url);
+            if (src.startsWith('http') && !images.includes(src)) images.push(src);
+        });
+    }
+
+    const average = jsonLdProduct?.ratings?.average || parseFloat($('.pdp__rating .rating-value, .product-rating').first().text()) || 0;
+    const count = jsonLdProduct?.ratings?.count || parseRatingCount($('.pdp__rating .rating-count').first().text());
+
+    const specifications: Record<string, string> = {};
+    $('.pdp__tab-info__list__item, .specifications-list li').each((_, el) => {
+        const key = $(el).find('.pdp__tab-info__list__name, .specifications-list--title').first().text().trim();
+        const value = $(el).find('.pdp__tab-info__list__value, .specifications-list--value').first().text().trim();
+        if (key && value) specifications[key] = value;
+    });
+
+    const highlights: string[] = [];
+    $('.pdp__features li, .key-features li').each((_, el) => {
+        const text = $(el).text().trim();
+        if (text && text.length > 5 && text.length < 300) highlights.push(text);
+    });
+
+    return {
+        title,
+        brand,
+        price: { current: currentPrice, original: originalPrice > currentPrice ? originalPrice : undefined, currency: 'INR' },
+        images: images.slice(0, 6),
+        specifications,
+        ratings: { average, count },
+        highlights: highlights.length > 0 ? highlights.slice(0, 6) : (jsonLdProduct?.highlights || []),
+        availability: extractAvailabilityFromJsonLd($) ?? ($('.pdp__outOfStock, .out-of-stock').length > 0 ? 'out-of-stock' : undefined)
+    };
+}
+
+export const relianceDigital: MarketplaceAdapter = {
+    name: 'Reliance Digital',
+    hostnames: [domain('reliancedigital.in')],
+    canonicalUrl: stripQuery,
+    extractProductId: idAfterP,
+    scrape: scrapeRelianceDigitalPage,
+    searchUrl: (query) => `https://www.reliancedigital.in/search?q=${encodeURIComponent(query)}`
+};
@@ -0,0 +1,20 @@
+import type * as cheerio from 'cheerio';
+import type { ScrapedProduct } from '../scraper.js';
+
+/**
+ * Everything BuySense needs to know about one store.
+ * Adding a marketplace means writing one adapter and registering it in ./index.ts.
+ */
+export interface MarketplaceAdapter {
+    // Display name, also used as the store name in price comparisons
+    name: string;
+    // Matched against the URL hostname
+    hostnames: RegExp[];
+    // URL with tracking parameters and other noise stripped
+    canonicalUrl(url: URL): string;
+    // Store-specific product identifier (ASIN, pid, ...), or null if the URL has none
+    extractProductId(url: URL): string | null;
+    // Extract product data from a loaded product page; omitted for stores without a scraper
+    scrape?($: cheerio.CheerioAPI, url: string): ScrapedProduct | null;
+    searchUrl(query: string): string;
+}
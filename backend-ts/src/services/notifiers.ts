@@ -0,0 +1,117 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import type { NotificationChannel, PriceAlert } from '../types/index.js';
+
+/**
+ * Delivers a price alert over one kind of notification channel.
+ * Register new channel types in `defaultNotifiers` keyed by `channel.type`.
+ */
+export interface Notifier {
+    notify(alert: PriceAlert, channel: NotificationChannel): Promise<void>;
+}
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254) and other
+// addresses a webhook must never reach
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges
+function isBlockedAddress(address: string): boolean {
+    return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Optional comma-separated list of hosts webhooks may point at; subdomains are allowed too
+function allowedWebhookHosts(): string[] {
+    return (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+/**
+ * Check that a webhook URL is safe for the server to POST to: https only, on an allowed
+ * host if WEBHOOK_ALLOWED_HOSTS is set, and never resolving to a loopback, private or
+ * link-local address. Returns the reason it was rejected, or null if it is fine.
+ */
+export async function validateWebhookUrl(url: string): Promise<string | null> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'Invalid webhook URL format';
+    }
+
+    if (parsed.protocol !== 'https:') return 'Webhook URL must use https';
+    if (parsed.username || parsed.password) return 'Webhook URL must not contain credentials';
+
+    const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const allowed = allowedWebhookHosts();
+    if (allowed.length > 0 && !allowed.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+        return 'Webhook host is not on the allowed list';
+    }
+
+    if (hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+        return 'Webhook URL must point at a public host';
+    }
+
+    let addresses: string[];
+    if (isIP(hostname)) {
+        addresses = [hostname];
+    } else {
+        try {
+            addresses = (await lookup(hostname, { all: true })).map(entry => entry.address);
+        } catch {
+            return 'Webhook host could not be resolved';
+        }
+    }
+    if (addresses.some(isBlockedAddress)) return 'Webhook URL must point at a public host';
+
+    return null;
+}
+
+/**
+ * POSTs the alert as JSON to the channel's webhook URL
+ */
+export const webhookNotifier: Notifier = {
+    async notify(alert, channel) {
+        // Checked again at delivery: the host may resolve somewhere else by now
+        const invalid = await validateWebhookUrl(channel.url);
+        if (invalid) {
+            throw new Error(invalid);
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+
+        try {
+            const response = await fetch(channel.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ type: 'price-alert', alert }),
+                // A redirect could lead anywhere, including the addresses checked above
+                redirect: 'error',
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+            }
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+};
+
+export type NotifierRegistry = Record<NotificationChannel['type'], Notifier>;
+
+export const defaultNotifiers: NotifierRegistry = {
+    webhook: webhookNotifier
+};
@@ -0,0 +1,179 @@
+import type { Offer, OfferType, PriceData } from '../types/index.js';
+
+// Canonical bank names, so "HDFC Bank Credit Card" and "HDFC" match the same saved card
+const BANKS: Array<[name: string, pattern: RegExp]> = [
+    ['HDFC Bank', /\bhdfc\b/i],
+    ['ICICI Bank', /\bicici\b/i],
+    ['SBI', /\b(sbi|state bank of india)\b/i],
+    ['Axis Bank', /\baxis\b/i],
+    ['Kotak Bank', /\bkotak\b/i],
+    ['IDFC FIRST Bank', /\bidfc\b/i],
+    ['IndusInd Bank', /\bindusind\b/i],
+    ['Yes Bank', /\byes bank\b/i],
+    ['AU Bank', /\bau (small finance )?bank\b/i],
+    ['RBL Bank', /\brbl\b/i],
+    ['Bank of Baroda', /\b(bob|bobcard|bank of baroda)\b/i],
+    ['HSBC', /\bhsbc\b/i],
+    ['Federal Bank', /\bfederal bank\b/i],
+    ['OneCard', /\bone ?card\b/i],
+    ['American Express', /\b(amex|american express)\b/i]
+];
+
+export function normalizeBank(text: string): string | undefined {
+    return BANKS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+const AMOUNT = String.raw`(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d+)?)`;
+// "on orders of ₹5,000 and above", "Minimum purchase value ₹5,000"
+const MIN_SPEND = new RegExp(String.raw`(?:orders?|purchases?|transactions?|spends?)(?:\s+value)?\s*(?:of|above|over|worth)?\s*:?\s*` + AMOUNT + String.raw`(?:\s*(?:and|or)\s*(?:above|more))?`, 'i');
+const UP_TO = new RegExp(String.raw`up\s*to\s*` + AMOUNT, 'i');
+const PERCENT = /(\d+(?:\.\d+)?)\s*%/;
+const FLAT = new RegExp(AMOUNT, 'i');
+
+function toAmount(match: RegExpMatchArray | null): number | undefined {
+    return match ? Number(match[1].replace(/,/g, '')) : undefined;
+}
+
+function offerType(text: string, bank: string | undefined): OfferType | null {
+    // Already included in the listing price
+    if (/special price|price inclusive of/i.test(text)) return null;
+    if (/exchange/i.test(text)) return 'exchange';
+    if (/no.?cost emi/i.test(text)) return 'no-cost-emi';
+    if (/cashback/i.test(text)) return 'cashback';
+    if (bank || /bank offer|credit card|debit card/i.test(text)) return 'bank';
+    if (/coupon|promo ?code|extra .*off/i.test(text)) return 'coupon';
+    return null;
+}
+
+/**
+ * Read an offer as stores word it, e.g. "Bank Offer 10% off on HDFC Bank Credit Card,
+ * up to ₹1,500 on orders of ₹5,000 and above". "Up to ₹X" without a percentage only says
+ * what the offer can reach, so it is kept as a cap on a ₹0 discount and never counted in
+ * the effective price. Returns null for text that is not a price offer.
+ */
+export function parseOfferText(text: string): Offer | null {
+    const description = text
+        .replace(/\s+/g, ' ')
+        // Flipkart runs the label into the text: "Bank Offer10% off..."
+        .replace(/^(bank offer|partner offer|combo offer)(?=[^\s:])/i, '$1 ')
+        .replace(/\s*T&C\s*$/i, '')
+        .trim();
+    const bank = normalizeBank(description);
+    const type = offerType(description, bank);
+    if (!type) return null;
+
+    // Take the minimum spend out first so its amount is not read as the discount
+    const minSpendMatch = description.match(MIN_SPEND);
+    const rest = minSpendMatch ? description.replace(minSpendMatch[0], ' ') : description;
+
+    const percent = rest.match(PERCENT);
+    const upTo = toAmount(rest.match(UP_TO));
+    const flat = toAmount(rest.match(FLAT));
+
+    let offer: Offer;
+    if (percent) {
+        offer = { type, discount: Number(percent[1]), discountType: 'percent', description };
+        if (upTo) offer.cap = upTo;
+    } else if (upTo) {
+        offer = { type, discount: 0, discountType: 'flat', cap: upTo, description };
+    } else if (flat) {
+        offer = { type, discount: flat, discountType: 'flat', description };
+    } else if (type === 'no-cost-emi') {
+        // The saving is the interest, which depends on the tenure
+        offer = { type, discount: 0, discountType: 'flat', description };
+    } else {
+        return null;
+    }
+
+    if (bank) offer.bank = bank;
+    const minSpend = toAmount(minSpendMatch);
+    if (minSpend) offer.minSpend = minSpend;
+    return offer;
+}
+
+/**
+ * Parse a list of offer texts, skipping anything that is not a price offer and duplicates
+ */
+export function parseOffers(texts: string[]): Offer[] {
+    const offers: Offer[] = [];
+    for (const text of texts) {
+        const offer = parseOfferText(text);
+        if (offer && !offers.some(o => o.description === offer.description)) offers.push(offer);
+    }
+    return offers;
+}
+
+// Offers paid on a card; only one of them can be used per order
+const CARD_OFFER_TYPES = new Set<OfferType>(['bank', 'cashback', 'no-cost-emi']);
+
+/**
+ * Rupees an offer takes off `price`, or 0 if the order is below its minimum spend.
+ * Exchange offers always count as 0, since their value depends on the device traded in.
+ */
+export function offerSaving(offer: Offer, price: number): number {
+    if (offer.type === 'exchange' || price <= 0) return 0;
+    if (offer.minSpend && price < offer.minSpend) return 0;
+
+    const saving = offer.discountType === 'percent'
+        ? Math.round(price * offer.discount / 100)
+        : offer.discount;
+    return Math.min(saving, offer.cap ?? Infinity, price);
+}
+
+function bestOffer(offers: Offer[], price: number): Offer | null {
+    let best: Offer | null = null;
+    for (const offer of offers) {
+        const saving = offerSaving(offer, price);
+        if (saving > 0 && (!best || saving > offerSaving(best, price))) best = offer;
+    }
+    return best;
+}
+
+/**
+ * Offers the holder of `cards` (bank names as in Offer.bank) can use. Card offers that
+ * name no bank still need a card, so they only count once the user has picked one.
+ */
+function eligibleOffers(offers: Offer[], cards: string[]): Offer[] {
+    const held = new Set(cards.map(card => card.toLowerCase()));
+    return offers.filter(offer => {
+        if (!CARD_OFFER_TYPES.has(offer.type)) return true;
+        return offer.bank ? held.has(offer.bank.toLowerCase()) : held.size > 0;
+    });
+}
+
+/**
+ * What a listing costs after the best coupon and the best offer on one of `cards`
+ */
+export function getEffectivePrice(price: number, offers: Offer[], cards: string[]): { price: number; appliedOffers: Offer[] } {
+    const eligible = eligibleOffers(offers, cards);
+    const appliedOffers = [
+        bestOffer(eligible.filter(offer => offer.type === 'coupon'), price),
+        bestOffer(eligible.filter(offer => CARD_OFFER_TYPES.has(offer.type)), price)
+    ].filter((offer): offer is Offer => offer !== null);
+
+    const savings = appliedOffers.reduce((total, offer) => total + offerSaving(offer, price), 0);
+    return { price: Math.max(price - savings, 0), appliedOffers };
+}
+
+/**
+ * Work out every store's effective price for `cards`, then mark the cheapest trusted one
+ * as the best price and how much more each other store costs. Returns new entries, so
+ * cached prices can be ranked again for another user's cards.
+ */
+export function rankPrices(prices: PriceData[], cards: string[] = []): PriceData[] {
+    const ranked: PriceData[] = prices.map(p => {
+        // Prices cached before offers were collected have none
+        const effective = getEffectivePrice(p.price, p.offers ?? [], cards);
+        return { ...p, effectivePrice: effective.price, appliedOffers: effective.appliedOffers, savings: undefined, isBestPrice: false };
+    });
+
+    const validPrices = ranked.filter(p => p.price > 0 && !p.suspect);
+    if (validPrices.length > 0) {
+        const bestPrice = Math.min(...validPrices.map(p => p.effectivePrice));
+        validPrices.forEach(p => {
+            p.isBestPrice = p.effectivePrice === bestPrice;
+            p.savings = p.effectivePrice > bestPrice ? Math.round(p.effectivePrice - bestPrice) : undefined;
+        });
+    }
+    return ranked;
+}
@@ -0,0 +1,129 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { getProductId } from './productIdentity.js';
+import type { PriceData, PriceHistoryEntry, PriceHistoryResponse, StorePriceHistory } from '../types/index.js';
+
+/**
+ * Durable price history store.
+ * Every price observation is appended as one JSON line to a local file, so history
+ * survives restarts and outlives the in-memory product cache.
+ */
+const HISTORY_FILE = process.env.PRICE_HISTORY_FILE || path.join(process.cwd(), 'data', 'price-history.jsonl');
+
+// Serialize writes so concurrent analyses never interleave partial lines
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Product IDs from productIdentity; rows recorded before it carry a base64 URL prefix instead
+const CANONICAL_ID = /^[0-9a-f]{16}$/;
+
+/**
+ * The product a row belongs to. Legacy IDs were the same for most URLs, so those
+ * rows are filed under the product their own listing URL identifies.
+ */
+function entryProductId(entry: PriceHistoryEntry): string | undefined {
+    if (CANONICAL_ID.test(entry.productId)) return entry.productId;
+    try {
+        return getProductId(entry.url);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Append the given price rows for a product to the history file.
+ * Rows without a real price (search-link fallbacks) and prices flagged as suspect are skipped,
+ * so an implausible price never shows up as a historic low.
+ */
+export function recordPrices(productId: string, prices: PriceData[], recordedAt: string = new Date().toISOString()): Promise<void> {
+    const entries: PriceHistoryEntry[] = prices
+        .filter(p => p.price > 0 && !p.suspect)
+        .map(p => ({
+            productId,
+            store: p.store,
+            price: p.price,
+            currency: p.currency,
+            availability: p.availability,
+            url: p.url,
+            recordedAt
+        }));
+
+    if (entries.length === 0) return writeQueue;
+
+    const lines = entries.map(e => JSON.stringify(e)).join('\n') + '\n';
+    writeQueue = writeQueue
+        .then(async () => {
+            await fs.mkdir(path.dirname(HISTORY_FILE), { recursive: true });
+            await fs.appendFile(HISTORY_FILE, lines, 'utf8');
+        })
+        .catch(err => {
+            console.error('Failed to record price history:', err);
+        });
+
+    return writeQueue;
+}
+
+/**
+ * Read every recorded observation for a product, oldest first.
+ * The file is streamed line by line so only the product's own rows are held in memory.
+ */
+export async function getPriceEntries(productId: string): Promise<PriceHistoryEntry[]> {
+    await writeQueue;
+
+    const entries: PriceHistoryEntry[] = [];
+    const lines = createInterface({ input: createReadStream(HISTORY_FILE, 'utf8'), crlfDelay: Infinity });
+    try {
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            let entry: PriceHistoryEntry;
+            try {
+                entry = JSON.parse(line) as PriceHistoryEntry;
+            } catch {
+                // Skip a corrupt line rather than losing the whole history
+                continue;
+            }
+            if (entryProductId(entry) === productId) entries.push({ ...entry, productId });
+        }
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+    }
+
+    return entries.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Build the per-store time series for a product
+ */
+export async function getPriceHistory(productId: string): Promise<PriceHistoryResponse> {
+    const entries = await getPriceEntries(productId);
+
+    const byStore = new Map<string, StorePriceHistory>();
+    for (const entry of entries) {
+        let series = byStore.get(entry.store);
+        if (!series) {
+            series = { store: entry.store, currency: entry.currency, points: [], lowest: 0, highest: 0, average: 0 };
+            byStore.set(entry.store, series);
+        }
+        series.points.push({
+            price: entry.price,
+            availability: entry.availability,
+            recordedAt: entry.recordedAt
+        });
+    }
+
+    // Summary statistics per store
+    for (const series of byStore.values()) {
+        const values = series.points.map(p => p.price);
+        series.lowest = Math.min(...values);
+        series.highest = Math.max(...values);
+        series.average = Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+    }
+
+    return {
+        productId,
+        stores: [...byStore.values()],
+        firstSeen: entries[0]?.recordedAt,
+        lastSeen: entries[entries.length - 1]?.recordedAt
+    };
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import { findMarketplace } from './marketplaces/index.js';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|msclkid|srsltid|ref|ref_|tag|affid|affextparam\d*|cmpid|campaign|src)$/i;
+
+/**
+ * The URL a product page is analyzed under: the marketplace adapter's canonical form,
+ * or for unknown stores the URL without its hash, tracking parameters and trailing slash
+ */
+export function canonicalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    const marketplace = findMarketplace(url);
+    if (marketplace) return marketplace.canonicalUrl(parsed);
+
+    for (const key of [...parsed.searchParams.keys()]) {
+        if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+}
+
+/**
+ * What makes two URLs the same product: the store's own product ID where the URL
+ * has one (ASIN, pid, style ID, ...), otherwise the canonical URL
+ */
+export function productIdentity(url: string): string {
+    const marketplace = findMarketplace(url);
+    const storeId = marketplace?.extractProductId(new URL(url));
+    return marketplace && storeId ? `${marketplace.name.toLowerCase()}:${storeId}` : canonicalizeUrl(url);
+}
+
+/**
+ * Derive the product ID used for caching and history: a hash of the product identity,
+ * so tracking parameters and URL variants of the same product share one ID
+ */
+export function getProductId(url: string): string {
+    return createHash('sha256').update(productIdentity(url)).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,113 @@
+import { findMarketplace, listMarketplaces } from './marketplaces/index.js';
+import type { GeminiProductData } from './gemini.js';
+import type { ScrapedProduct } from './scraper.js';
+import type { AnalysisWarning, PriceData } from '../types/index.js';
+
+// Allowed disagreement between the scraper and Gemini before we warn
+const PRICE_TOLERANCE = 0.1;         // 10% relative
+const RATING_TOLERANCE = 0.3;        // stars, absolute
+const REVIEW_COUNT_TOLERANCE = 0.5;  // 50% relative; stores count ratings and reviews differently
+
+// A comparison price this far from the median is probably a different product or variant
+const MEDIAN_DEVIATION_LIMIT = 0.5;
+
+function relativeDifference(a: number, b: number): number {
+    return Math.abs(a - b) / Math.max(a, b);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Compare the values the scraper read from the page with the ones Gemini found,
+ * and warn wherever both exist but disagree beyond tolerance.
+ */
+export function reconcileProduct(scraped: ScrapedProduct | null, gemini: GeminiProductData): AnalysisWarning[] {
+    if (!scraped) return [];
+
+    const warnings: AnalysisWarning[] = [];
+    const compare = (
+        field: AnalysisWarning['field'],
+        label: string,
+        scrapedValue: number | undefined,
+        geminiValue: number | undefined,
+        exceeds: (a: number, b: number) => boolean
+    ) => {
+        if (!scrapedValue || !geminiValue || scrapedValue <= 0 || geminiValue <= 0) return;
+        if (!exceeds(scrapedValue, geminiValue)) return;
+
+        warnings.push({
+            field,
+            message: `${label} on the page (${scrapedValue}) differs from the AI-found value (${geminiValue})`,
+            scraped: scrapedValue,
+            gemini: geminiValue
+        });
+    };
+
+    compare('price', 'Price', scraped.price?.current, gemini.price.current,
+        (a, b) => relativeDifference(a, b) > PRICE_TOLERANCE);
+    compare('originalPrice', 'MRP', scraped.price?.original, gemini.price.original,
+        (a, b) => relativeDifference(a, b) > PRICE_TOLERANCE);
+    compare('rating', 'Rating', scraped.ratings?.average, gemini.ratings.average,
+        (a, b) => Math.abs(a - b) > RATING_TOLERANCE);
+    compare('reviewCount', 'Review count', scraped.ratings?.count, gemini.ratings.count,
+        (a, b) => relativeDifference(a, b) > REVIEW_COUNT_TOLERANCE);
+
+    return warnings;
+}
+
+/**
+ * Why a comparison price should not be trusted, or null if it looks fine
+ */
+function suspectReason(entry: PriceData, reference: number | null): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(entry.url);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error('not http');
+    } catch {
+        return 'store URL could not be parsed';
+    }
+
+    // A known store's price should link to that store's own site
+    const expected = listMarketplaces().find(m => m.name.toLowerCase() === entry.store.toLowerCase());
+    if (expected && findMarketplace(entry.url) !== expected) {
+        return `URL does not point to ${expected.name}`;
+    }
+
+    if (reference && relativeDifference(entry.price, reference) > MEDIAN_DEVIATION_LIMIT) {
+        return `price is far from the typical price (₹${Math.round(reference)})`;
+    }
+
+    return null;
+}
+
+/**
+ * Mark implausible comparison prices as suspect so they are never crowned best price.
+ * The reference is the median of all prices when there are enough of them to be
+ * meaningful, otherwise the price scraped from the source page.
+ * Rows we built ourselves (`trusted`) are never flagged.
+ */
+export function flagSuspectPrices(prices: PriceData[], scrapedPrice: number | null, trusted: Set<PriceData>): AnalysisWarning[] {
+    const valid = prices.filter(p => p.price > 0);
+    const reference = valid.length >= 3 ? median(valid.map(p => p.price)) : scrapedPrice;
+
+    const warnings: AnalysisWarning[] = [];
+    for (const entry of valid) {
+        if (trusted.has(entry)) continue;
+
+        const reason = suspectReason(entry, reference);
+        if (!reason) continue;
+
+        entry.suspect = true;
+        entry.suspectReason = reason;
+        warnings.push({
+            field: 'storePrice',
+            store: entry.store,
+            message: `${entry.store} price ₹${entry.price} looks unreliable: ${reason}`
+        });
+    }
+    return warnings;
+}
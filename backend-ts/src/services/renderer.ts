@@ -0,0 +1,108 @@
+import type { Browser } from 'playwright-core';
+
+/**
+ * Optional headless-browser rendering tier for the scraper.
+ * Enabled with SCRAPER_RENDER=true; needs the optional `playwright-core` dependency and a
+ * Chromium binary (SCRAPER_BROWSER_PATH, or one installed with `npx playwright install chromium`).
+ */
+const RENDER_ENABLED = ['1', 'true', 'yes'].includes((process.env.SCRAPER_RENDER || '').toLowerCase());
+const RENDER_CONCURRENCY = Math.max(1, Number(process.env.SCRAPER_RENDER_CONCURRENCY) || 2);
+const RENDER_TIMEOUT = Number(process.env.SCRAPER_RENDER_TIMEOUT_MS) || 20000; // 20 seconds
+const BROWSER_PATH = process.env.SCRAPER_BROWSER_PATH || undefined;
+
+const RENDER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+let browserPromise: Promise<Browser> | null = null;
+let activePages = 0;
+const waiting: Array<() => void> = [];
+
+export function isRenderingEnabled(): boolean {
+    return RENDER_ENABLED;
+}
+
+/**
+ * Launch the shared browser on first use; later calls reuse it
+ */
+async function getBrowser(): Promise<Browser> {
+    if (!browserPromise) {
+        browserPromise = (async () => {
+            let playwright: typeof import('playwright-core');
+            try {
+                playwright = await import('playwright-core');
+            } catch {
+                throw new Error('SCRAPER_RENDER is set but playwright-core is not installed');
+            }
+            const browser = await playwright.chromium.launch({ headless: true, executablePath: BROWSER_PATH });
+            browser.on('disconnected', () => {
+                browserPromise = null;
+            });
+            return browser;
+        })();
+        // Let the next caller retry if the launch itself failed
+        browserPromise.catch(() => {
+            browserPromise = null;
+        });
+    }
+    return browserPromise;
+}
+
+/**
+ * Wait for a free page slot so at most RENDER_CONCURRENCY pages render at once
+ */
+async function acquireSlot(): Promise<void> {
+    if (activePages < RENDER_CONCURRENCY) {
+        activePages++;
+        return;
+    }
+    await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+    const next = waiting.shift();
+    if (next) {
+        // Hand the slot straight to the next waiter
+        next();
+    } else {
+        activePages--;
+    }
+}
+
+/**
+ * Load a page with JavaScript executed and return the rendered HTML.
+ * The whole render, including waiting for the page to settle, is bounded by RENDER_TIMEOUT.
+ */
+export async function renderPage(url: string): Promise<string> {
+    await acquireSlot();
+    try {
+        const browser = await getBrowser();
+        const context = await browser.newContext({ userAgent: RENDER_USER_AGENT, locale: 'en-IN' });
+        const deadline = Date.now() + RENDER_TIMEOUT;
+
+        try {
+            const page = await context.newPage();
+            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: RENDER_TIMEOUT });
+
+            // Give client-side rendering a chance to finish, but never past the deadline
+            const remaining = deadline - Date.now();
+            if (remaining > 0) {
+                await page.waitForLoadState('networkidle', { timeout: remaining }).catch(() => undefined);
+            }
+
+            return await page.content();
+        } finally {
+            await context.close().catch(() => undefined);
+        }
+    } finally {
+        releaseSlot();
+    }
+}
+
+/**
+ * Close the shared browser, e.g. on shutdown
+ */
+export async function closeRenderer(): Promise<void> {
+    if (!browserPromise) return;
+    const browser = await browserPromise.catch(() => null);
+    browserPromise = null;
+    await browser?.close();
+}
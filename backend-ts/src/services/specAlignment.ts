@@ -0,0 +1,54 @@
+import type { NormalizedSpec, SpecComparisonRow } from '../types/index.js';
+
+const MAX_ROWS = 30;
+
+/**
+ * Index of the single best value, or null when fewer than two products
+ * have a value or the best is tied
+ */
+export function pickWinner(values: Array<number | null>, better: 'higher' | 'lower' | undefined): number | null {
+    if (!better) return null;
+
+    const present = values.filter((n): n is number => n !== null);
+    if (present.length < 2) return null;
+
+    const best = better === 'higher' ? Math.max(...present) : Math.min(...present);
+    const winners = values.flatMap((n, i) => (n === best ? [i] : []));
+    return winners.length === 1 ? winners[0] : null;
+}
+
+/**
+ * Line up normalised spec sheets of several products, one row per canonical spec
+ * ("Memory" and "RAM" share a row), and mark the best value where that is meaningful
+ */
+export function alignSpecifications(specSheets: Array<Record<string, NormalizedSpec>>): SpecComparisonRow[] {
+    const rows = new Map<string, { label: string; specs: Array<NormalizedSpec | null> }>();
+
+    specSheets.forEach((specs, productIndex) => {
+        for (const [id, spec] of Object.entries(specs)) {
+            let row = rows.get(id);
+            if (!row) {
+                row = { label: spec.label, specs: specSheets.map(() => null) };
+                rows.set(id, row);
+            }
+            row.specs[productIndex] = spec;
+        }
+    });
+
+    const listedBy = (specs: Array<NormalizedSpec | null>) => specs.filter(Boolean).length;
+
+    // Specs most products list come first; Array.prototype.sort is stable, so ties keep sheet order
+    return [...rows.values()]
+        .sort((a, b) => listedBy(b.specs) - listedBy(a.specs))
+        .slice(0, MAX_ROWS)
+        .map(({ label, specs }) => {
+            const listed = specs.filter((spec): spec is NormalizedSpec => spec !== null);
+            // Only compare when every listed value could be read
+            const comparable = listed.every(spec => spec.quantity);
+            return {
+                key: label,
+                values: specs.map(spec => spec?.value ?? null),
+                winner: comparable ? pickWinner(specs.map(spec => spec?.quantity?.value ?? null), listed[0]?.better) : null
+            };
+        });
+}
@@ -0,0 +1,156 @@
+import type { NormalizedSpec, ProductCategory, SpecUnit } from '../types/index.js';
+
+interface SpecDefinition {
+    id: string;
+    label: string;
+    // Matched against the cleaned-up spec name
+    aliases: RegExp;
+    unit?: SpecUnit;
+    // Omitted where bigger is not simply better (screen size, capacity)
+    better?: 'higher' | 'lower';
+}
+
+// ============= Units =============
+
+interface UnitPattern {
+    // Number followed by one of the unit's spellings, matched against the value as written
+    pattern: RegExp;
+    // Multiplier from each spelling to the canonical unit
+    scale: Record<string, number>;
+}
+
+const UNITS: Record<SpecUnit, UnitPattern> = {
+    mAh: { pattern: /(\d+(?:\.\d+)?)\s*(mah)\b/i, scale: { mah: 1 } },
+    GB: { pattern: /(\d+(?:\.\d+)?)\s*(tb|gb|mb)\b/i, scale: { tb: 1024, gb: 1, mb: 1 / 1024 } },
+    // Amazon lists screens as "16.94 cm (6.67 inch)"
+    inch: { pattern: /(\d+(?:\.\d+)?)\s*(inches|inch|in\b|"|″|cm)/i, scale: { inches: 1, inch: 1, in: 1, '"': 1, '″': 1, cm: 1 / 2.54 } },
+    W: { pattern: /(\d+(?:\.\d+)?)\s*(kw|watts?|w)\b/i, scale: { kw: 1000, watts: 1, watt: 1, w: 1 } },
+    // Case-sensitive, so a bare "G" as in "5G" is never read as grams
+    kg: { pattern: /(\d+(?:\.\d+)?)\s*([Kk]ilograms?|KG|[Kk]g|[Gg]rams?|[Gg]ms?|GMS?|g)\b/, scale: { kilograms: 1, kilogram: 1, kg: 1, grams: 0.001, gram: 0.001, gms: 0.001, gm: 0.001, g: 0.001 } },
+    Hz: { pattern: /(\d+(?:\.\d+)?)\s*(hz)\b/i, scale: { hz: 1 } },
+    MP: { pattern: /(\d+(?:\.\d+)?)\s*(megapixels?|mp)\b/i, scale: { megapixels: 1, megapixel: 1, mp: 1 } },
+    hours: { pattern: /(\d+(?:\.\d+)?)\s*(days?|hours?|hrs?|h)\b/i, scale: { days: 24, day: 24, hours: 1, hour: 1, hrs: 1, hr: 1, h: 1 } },
+    months: { pattern: /(\d+(?:\.\d+)?)\s*(years?|yrs?|months?)\b/i, scale: { years: 12, year: 12, yrs: 12, yr: 12, months: 1, month: 1 } }
+};
+
+/**
+ * Read a value in `unit`, converting from related units ("1 TB" is 1024 GB).
+ * A bare number is taken to be in the unit already.
+ */
+export function parseQuantity(value: string, unit: SpecUnit): number | null {
+    const text = value.replace(/,/g, '').trim();
+    if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+
+    const match = text.match(UNITS[unit].pattern);
+    if (!match) return null;
+    // Rounded to three decimals so conversions read cleanly: 16.94 cm is 6.669 inches
+    return Math.round(Number(match[1]) * UNITS[unit].scale[match[2].toLowerCase()] * 1000) / 1000;
+}
+
+// ============= Dictionary =============
+
+const PROCESSOR: SpecDefinition = { id: 'processor', label: 'Processor', aliases: /^(processor|processor name|processor brand|chipset|cpu|cpu model|soc)$/ };
+const RAM: SpecDefinition = { id: 'ram', label: 'RAM', aliases: /^(ram|ram size|memory|memory ram|installed ram|system memory)$/, unit: 'GB', better: 'higher' };
+const STORAGE: SpecDefinition = { id: 'storage', label: 'Storage', aliases: /^(storage|internal storage|inbuilt storage|storage capacity|rom|ssd capacity|hard disk size|hard drive size)$/, unit: 'GB', better: 'higher' };
+const DISPLAY_SIZE: SpecDefinition = { id: 'displaySize', label: 'Display Size', aliases: /^(display|display size|screen|screen size|standing screen display size)$/, unit: 'inch' };
+const REFRESH_RATE: SpecDefinition = { id: 'refreshRate', label: 'Refresh Rate', aliases: /^(refresh rate|display refresh rate)$/, unit: 'Hz', better: 'higher' };
+const RESOLUTION: SpecDefinition = { id: 'resolution', label: 'Resolution', aliases: /^(resolution|display resolution|screen resolution)$/ };
+const OPERATING_SYSTEM: SpecDefinition = { id: 'os', label: 'Operating System', aliases: /^(os|operating system)$/ };
+const BATTERY_LIFE: SpecDefinition = { id: 'batteryLife', label: 'Battery Life', aliases: /^(battery life|battery backup|playback time|playtime|play time|battery)$/, unit: 'hours', better: 'higher' };
+const OUTPUT_POWER: SpecDefinition = { id: 'outputPower', label: 'Output Power', aliases: /^(output power|power output|sound output|audio output|speaker output)$/, unit: 'W', better: 'higher' };
+const CONNECTIVITY: SpecDefinition = { id: 'connectivity', label: 'Connectivity', aliases: /^(connectivity|connectivity technology|connector type|bluetooth version)$/ };
+
+// Apply to every category
+const COMMON_SPECS: SpecDefinition[] = [
+    { id: 'weight', label: 'Weight', aliases: /^(weight|item weight|product weight|net weight)$/, unit: 'kg', better: 'lower' },
+    { id: 'warranty', label: 'Warranty', aliases: /^(warranty|warranty period|manufacturer warranty|warranty summary)$/, unit: 'months', better: 'higher' },
+    { id: 'colour', label: 'Colour', aliases: /^(colou?r|colou?r name)$/ }
+];
+
+// The same name means different things per category: "Battery" is mAh on a phone, hours on earbuds
+const CATEGORY_SPECS: Partial<Record<ProductCategory, SpecDefinition[]>> = {
+    smartphone: [
+        PROCESSOR, RAM, STORAGE, DISPLAY_SIZE, REFRESH_RATE,
+        { id: 'rearCamera', label: 'Rear Camera', aliases: /^(rear camera|primary camera|main camera|back camera)$/, unit: 'MP', better: 'higher' },
+        { id: 'frontCamera', label: 'Front Camera', aliases: /^(front camera|selfie camera|secondary camera)$/, unit: 'MP', better: 'higher' },
+        { id: 'battery', label: 'Battery', aliases: /^(battery|battery capacity|battery power)$/, unit: 'mAh', better: 'higher' },
+        { id: 'charging', label: 'Charging', aliases: /^(charging|charging speed|fast charging|quick charging|charger)$/, unit: 'W', better: 'higher' },
+        OPERATING_SYSTEM
+    ],
+    laptop: [
+        PROCESSOR, RAM, STORAGE, DISPLAY_SIZE, REFRESH_RATE, RESOLUTION,
+        { id: 'graphics', label: 'Graphics', aliases: /^(graphics|graphics card|graphics coprocessor|gpu|graphic processor)$/ },
+        { ...BATTERY_LIFE, aliases: /^(battery life|battery backup)$/ },
+        OPERATING_SYSTEM
+    ],
+    audio: [
+        BATTERY_LIFE, OUTPUT_POWER, CONNECTIVITY,
+        { id: 'noiseCancellation', label: 'Noise Cancellation', aliases: /^(noise cancell?ation|anc|active noise cancell?ation)$/ }
+    ],
+    television: [
+        { ...DISPLAY_SIZE, better: 'higher' }, RESOLUTION, REFRESH_RATE, OUTPUT_POWER, OPERATING_SYSTEM
+    ],
+    wearable: [
+        DISPLAY_SIZE, BATTERY_LIFE, CONNECTIVITY,
+        { id: 'waterResistance', label: 'Water Resistance', aliases: /^(water resistance|water resistant|water rating|ip rating)$/ }
+    ],
+    appliance: [
+        { id: 'capacity', label: 'Capacity', aliases: /^(capacity|total capacity|load capacity)$/ },
+        { id: 'energyRating', label: 'Energy Rating', aliases: /^(energy rating|star rating|bee rating|energy efficiency)$/ },
+        { id: 'power', label: 'Power', aliases: /^(power|wattage|power consumption|power rating)$/, unit: 'W' }
+    ]
+};
+
+// Tried after the product's own category, for products the classifier could not place
+const ALL_SPECS: SpecDefinition[] = Object.values(CATEGORY_SPECS).flat();
+
+function cleanKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// "Network Type" -> "networkType"
+function toId(cleaned: string): string {
+    return cleaned.replace(/ (\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Map store-specific spec names onto canonical keys for the category and parse
+ * values with a known unit. Unknown specs are kept under an id derived from their name.
+ */
+export function normalizeSpecifications(
+    specifications: Record<string, string>,
+    category: ProductCategory
+): Record<string, NormalizedSpec> {
+    const dictionary = [...(CATEGORY_SPECS[category] ?? []), ...COMMON_SPECS, ...ALL_SPECS];
+
+    const known: Array<[index: number, id: string, spec: NormalizedSpec]> = [];
+    const unknown: Array<[id: string, spec: NormalizedSpec]> = [];
+    const seen = new Set<string>();
+
+    for (const [rawKey, rawValue] of Object.entries(specifications)) {
+        const value = rawValue?.trim();
+        const cleaned = cleanKey(rawKey);
+        if (!value || !cleaned) continue;
+
+        const index = dictionary.findIndex(d => d.aliases.test(cleaned));
+        const definition = dictionary[index];
+        const id = definition?.id ?? toId(cleaned);
+        // Stores sometimes list a spec twice under different names; the first one wins
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        if (!definition) {
+            unknown.push([id, { label: rawKey.trim(), rawKey, value }]);
+            continue;
+        }
+
+        const spec: NormalizedSpec = { label: definition.label, rawKey, value };
+        const amount = definition.unit ? parseQuantity(value, definition.unit) : null;
+        if (amount !== null) spec.quantity = { value: amount, unit: definition.unit! };
+        if (definition.better) spec.better = definition.better;
+        known.push([index, id, spec]);
+    }
+
+    known.sort((a, b) => a[0] - b[0]);
+    return Object.fromEntries([...known.map(([, id, spec]) => [id, spec] as const), ...unknown]);
+}
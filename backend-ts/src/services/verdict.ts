@@ -0,0 +1,103 @@
+import { geminiVerdictSchema } from './geminiSchema.js';
+import type { AIVerdict, PriceRating, VerdictDecision } from '../types/index.js';
+
+const PRICE_RATINGS: Array<{ rating: PriceRating; pattern: RegExp }> = [
+    { rating: 'good-deal', pattern: /\b(good|great) deal\b/i },
+    { rating: 'overpriced', pattern: /\boverpriced\b/i },
+    { rating: 'fair', pattern: /\bfair(ly)? price(d)?\b/i }
+];
+
+const MAX_LIST_ITEMS = 8;
+const MAX_SUMMARY_LENGTH = 240;
+
+/**
+ * Split markdown into `## Heading` sections, keyed by the lower-cased heading
+ */
+function splitSections(markdown: string): Map<string, string> {
+    const sections = new Map<string, string>();
+    const parts = markdown.split(/^##\s+/m).slice(1);
+    for (const part of parts) {
+        const newline = part.indexOf('\n');
+        const heading = (newline === -1 ? part : part.slice(0, newline)).trim().toLowerCase();
+        const body = newline === -1 ? '' : part.slice(newline + 1).trim();
+        sections.set(heading, body);
+    }
+    return sections;
+}
+
+function findSection(sections: Map<string, string>, name: string): { heading: string; body: string } | null {
+    for (const [heading, body] of sections) {
+        if (heading.startsWith(name)) return { heading, body };
+    }
+    return null;
+}
+
+function stripMarkdown(text: string): string {
+    return text.replace(/\*\*|__|`/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function bulletItems(body: string): string[] {
+    return body
+        .split('\n')
+        .map(line => line.match(/^\s*(?:[-*•]|\d+\.)\s+(.+)$/)?.[1])
+        .filter((item): item is string => !!item)
+        .map(stripMarkdown)
+        .filter(item => item.length > 0)
+        .slice(0, MAX_LIST_ITEMS);
+}
+
+function parseDecision(body: string): VerdictDecision | null {
+    // Prefer the upper-case keyword the prompt asks for; fall back to any casing
+    const strict = body.match(/\b(BUY|SKIP|CONSIDER)\b/);
+    if (strict) return strict[1] as VerdictDecision;
+
+    const loose = body.match(/\b(buy|skip|consider)\b/i);
+    return loose ? (loose[1].toUpperCase() as VerdictDecision) : null;
+}
+
+function parseScore(heading: string, body: string): number | null {
+    const match = `${heading} ${body}`.match(/(\d+(?:\.\d+)?)\s*\/\s*10\b/);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * The price rating and its explanation, or undefined when the model gave no rating label
+ */
+function parsePriceAssessment(body: string): AIVerdict['priceAssessment'] {
+    const text = stripMarkdown(body);
+    const rating = PRICE_RATINGS.find(r => r.pattern.test(text))?.rating;
+    if (!rating) return undefined;
+
+    // Drop the leading rating label so the summary reads as a sentence
+    const summary = text
+        .replace(/^(good deal|great deal|fair price|overpriced)[\s:.\-–—]*/i, '')
+        .slice(0, MAX_SUMMARY_LENGTH);
+
+    return { rating, summary };
+}
+
+/**
+ * Pull the structured verdict out of the markdown analysis. Returns null when the
+ * recommendation or score is missing, so the UI never shows a made-up verdict.
+ */
+export function parseVerdict(markdown: string): AIVerdict | null {
+    const sections = splitSections(markdown);
+
+    const recommendation = findSection(sections, 'recommendation');
+    const scoreSection = findSection(sections, 'buysense score');
+    const verdict = recommendation ? parseDecision(recommendation.body) : null;
+    const score = scoreSection ? parseScore(scoreSection.heading, scoreSection.body) : null;
+    if (!verdict || score === null) return null;
+
+    const priceSection = findSection(sections, 'price analysis');
+    const candidate: AIVerdict = {
+        verdict,
+        score,
+        pros: bulletItems(findSection(sections, 'pros')?.body ?? ''),
+        cons: bulletItems(findSection(sections, 'cons')?.body ?? ''),
+        priceAssessment: priceSection ? parsePriceAssessment(priceSection.body) : undefined
+    };
+
+    const result = geminiVerdictSchema.safeParse(candidate);
+    return result.success ? result.data : null;
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WatchlistItem } from '../types/index.js';
+
+/**
+ * Storage for price watches. The scheduler and routes only talk to this interface,
+ * so tests can swap in the in-memory implementation.
+ */
+export interface WatchlistStore {
+    list(): Promise<WatchlistItem[]>;
+    get(id: string): Promise<WatchlistItem | undefined>;
+    save(item: WatchlistItem): Promise<void>;
+    remove(id: string): Promise<boolean>;
+}
+
+export function createMemoryWatchlistStore(initial: WatchlistItem[] = []): WatchlistStore {
+    const items = new Map(initial.map(item => [item.id, item]));
+
+    return {
+        async list() {
+            return [...items.values()];
+        },
+        async get(id) {
+            return items.get(id);
+        },
+        async save(item) {
+            items.set(item.id, item);
+        },
+        async remove(id) {
+            return items.delete(id);
+        }
+    };
+}
+
+/**
+ * Watchlist persisted as a single JSON file, loaded lazily on first access
+ */
+export function createFileWatchlistStore(filePath: string): WatchlistStore {
+    let items: Map<string, WatchlistItem> | null = null;
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    async function load(): Promise<Map<string, WatchlistItem>> {
+        if (items) return items;
+
+        try {
+            const content = await fs.readFile(filePath, 'utf8');
+            const parsed = JSON.parse(content) as WatchlistItem[];
+            items = new Map(parsed.map(item => [item.id, item]));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('Failed to load watchlist, starting empty:', err);
+            }
+            items = new Map();
+        }
+        return items;
+    }
+
+    function persist(): Promise<void> {
+        const snapshot = JSON.stringify([...(items?.values() ?? [])], null, 2);
+        writeQueue = writeQueue
+            .then(async () => {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(filePath, snapshot, 'utf8');
+            })
+            .catch(err => {
+                console.error('Failed to persist watchlist:', err);
+            });
+        return writeQueue;
+    }
+
+    return {
+        async list() {
+            return [...(await load()).values()];
+        },
+        async get(id) {
+            return (await load()).get(id);
+        },
+        async save(item) {
+            (await load()).set(item.id, item);
+            await persist();
+        },
+        async remove(id) {
+            const removed = (await load()).delete(id);
+            if (removed) await persist();
+            return removed;
+        }
+    };
+}
+
+export const watchlistStore = createFileWatchlistStore(
+    process.env.WATCHLIST_FILE || path.join(process.cwd(), 'data', 'watchlist.json')
+);
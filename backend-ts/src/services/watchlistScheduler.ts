@@ -0,0 +1,155 @@
+import type { NotifierRegistry } from './notifiers.js';
+import { rankPrices } from './offers.js';
+import type { WatchlistStore } from './watchlist.js';
+import type { AnalyzeResponse, PriceAlert, PriceData, WatchlistItem } from '../types/index.js';
+
+/**
+ * Time source for the scheduler; injected so tests can drive it with a fake clock
+ */
+export interface Clock {
+    now(): number;
+    setInterval(callback: () => void, ms: number): unknown;
+    clearInterval(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setInterval: (callback, ms) => setInterval(callback, ms),
+    clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout)
+};
+
+/**
+ * Re-runs the analysis pipeline for a watched URL (POST /api/analyze uses the same one)
+ */
+export type PriceAnalyzer = (url: string) => Promise<Pick<AnalyzeResponse, 'product' | 'prices'>>;
+
+export interface WatchlistSchedulerOptions {
+    store: WatchlistStore;
+    analyze: PriceAnalyzer;
+    notifiers: NotifierRegistry;
+    intervalMs: number;
+    clock?: Clock;
+    // Called with every fresh set of prices, e.g. to record price history
+    onPrices?: (productId: string, prices: PriceData[]) => Promise<void>;
+}
+
+export interface WatchlistScheduler {
+    start(): void;
+    stop(): void;
+    checkAll(): Promise<PriceAlert[]>;
+    checkItem(item: WatchlistItem): Promise<PriceAlert | null>;
+}
+
+/**
+ * Periodically re-checks every watched product and fires a notification when the
+ * best price after offers crosses below the target. A watch re-arms once the price goes back above it.
+ */
+export function createWatchlistScheduler(options: WatchlistSchedulerOptions): WatchlistScheduler {
+    const { store, analyze, notifiers, intervalMs, onPrices } = options;
+    const clock = options.clock ?? systemClock;
+
+    let handle: unknown = null;
+    let running: Promise<PriceAlert[]> | null = null;
+
+    // Save check results unless the watch was deleted while the check was running
+    async function saveResult(item: WatchlistItem): Promise<void> {
+        if (await store.get(item.id)) {
+            await store.save(item);
+        }
+    }
+
+    async function checkItem(item: WatchlistItem): Promise<PriceAlert | null> {
+        const result = await analyze(item.url);
+        const checkedAt = new Date(clock.now()).toISOString();
+
+        if (onPrices) {
+            await onPrices(item.productId, result.prices);
+        }
+
+        // Same ranking as the price comparison, after the offers on the watch's cards.
+        // Prices flagged as implausible are never ranked best, so never trigger an alert.
+        const best = rankPrices(result.prices, item.cards).find(p => p.isBestPrice);
+        if (!best) {
+            await saveResult({ ...item, lastCheckedAt: checkedAt });
+            return null;
+        }
+
+        const wasAbove = item.lastPrice === undefined || item.lastPrice > item.targetPrice;
+        const crossed = best.effectivePrice <= item.targetPrice && wasAbove;
+
+        if (!crossed) {
+            await saveResult({ ...item, lastCheckedAt: checkedAt, lastPrice: best.effectivePrice });
+            return null;
+        }
+
+        const alert: PriceAlert = {
+            watchId: item.id,
+            productId: item.productId,
+            productTitle: result.product.title,
+            url: item.url,
+            targetPrice: item.targetPrice,
+            store: best.store,
+            price: best.effectivePrice,
+            listPrice: best.price,
+            currency: best.currency,
+            storeUrl: best.url,
+            triggeredAt: checkedAt
+        };
+
+        const notifier = notifiers[item.channel.type];
+        if (!notifier) {
+            throw new Error(`No notifier registered for channel type "${item.channel.type}"`);
+        }
+        await notifier.notify(alert, item.channel);
+
+        // Only remember the new price once the notification went out, so a failed
+        // delivery is retried on the next run
+        await saveResult({ ...item, lastCheckedAt: checkedAt, lastPrice: best.effectivePrice, lastNotifiedAt: checkedAt });
+        return alert;
+    }
+
+    async function runChecks(): Promise<PriceAlert[]> {
+        const alerts: PriceAlert[] = [];
+        const items = await store.list();
+
+        // Sequential on purpose: every check spends Gemini quota
+        for (const item of items) {
+            try {
+                const alert = await checkItem(item);
+                if (alert) {
+                    console.log(`Price alert: ${alert.productTitle.substring(0, 40)} at ${alert.store} for ₹${alert.price} (target ₹${alert.targetPrice})`);
+                    alerts.push(alert);
+                }
+            } catch (err) {
+                console.error(`Watchlist check failed for ${item.id}:`, err);
+            }
+        }
+        return alerts;
+    }
+
+    function checkAll(): Promise<PriceAlert[]> {
+        // Never let a slow run overlap with the next tick
+        if (!running) {
+            running = runChecks().finally(() => {
+                running = null;
+            });
+        }
+        return running;
+    }
+
+    return {
+        start() {
+            if (handle) return;
+            handle = clock.setInterval(() => {
+                void checkAll();
+            }, intervalMs);
+        },
+        stop() {
+            if (!handle) return;
+            clock.clearInterval(handle);
+            handle = null;
+        },
+        checkAll,
+        checkItem
+    };
+}
@@ -1,14 +1,60 @@
 // Type definitions for BuySense backend
 
+export type VerdictDecision = 'BUY' | 'SKIP' | 'CONSIDER';
+
+export type PriceRating = 'good-deal' | 'fair' | 'overpriced';
+
+// Structured form of the Recommendation, Score, Pros/Cons and Price Analysis sections
+export interface AIVerdict {
+    verdict: VerdictDecision;
+    // 0..10
+    score: number;
+    pros: string[];
+    cons: string[];
+    // Absent when the Price Analysis section carries no GOOD DEAL / FAIR PRICE / OVERPRICED label
+    priceAssessment?: {
+        rating: PriceRating;
+        summary: string;
+    };
+}
+
 export interface AnalysisResult {
     content: string;
     sources: {
         title: string;
         uri: string;
     }[];
+    // Null when the analysis did not contain a recognisable verdict
+    verdict: AIVerdict | null;
     timestamp: string;
 }
 
+// Where a merged product field came from
+export type FieldSource = 'scraper' | 'gemini' | 'url-fallback';
+
+export type ProvenanceField = 'title' | 'brand' | 'price' | 'originalPrice' | 'images' | 'specifications' | 'ratings' | 'highlights';
+
+// Fields missing from the map had no value from any source
+export type FieldProvenance = Partial<Record<ProvenanceField, FieldSource>>;
+
+export type SpecUnit = 'mAh' | 'GB' | 'inch' | 'W' | 'kg' | 'Hz' | 'MP' | 'hours' | 'months';
+
+// A specification under its canonical name, with the number parsed out where the unit is known
+export interface NormalizedSpec {
+    // Canonical display name, e.g. "Battery" for "Battery Capacity"
+    label: string;
+    // Key and value as the store lists them
+    rawKey: string;
+    value: string;
+    // In the canonical unit: "1 TB" is 1024 GB, "190 g" is 0.19 kg
+    quantity?: {
+        value: number;
+        unit: SpecUnit;
+    };
+    // Which way values compare, for specs where more (or less) is simply better
+    better?: 'higher' | 'lower';
+}
+
 export interface ProductData {
     id: string;
     title: string;
@@ -20,7 +66,10 @@ export interface ProductData {
         currency: string;
     };
     images: string[];
+    // As the store lists them
     specifications: Record<string, string>;
+    // Keyed by canonical spec id ("battery", "ram"), known specs first
+    normalizedSpecifications: Record<string, NormalizedSpec>;
     ratings: {
         average: number;
         count: number;
@@ -31,35 +80,143 @@ export interface ProductData {
         url: string;
     };
     scrapedAt: string;
+    provenance: FieldProvenance;
+    // 0..1, weighted by how trustworthy each field's source is
+    confidence: number;
+}
+
+export type OfferType = 'bank' | 'coupon' | 'cashback' | 'no-cost-emi' | 'exchange';
+
+// A store offer that can lower what the buyer actually pays
+export interface Offer {
+    type: OfferType;
+    // Bank whose cards qualify ("HDFC Bank"); absent for offers open to everyone
+    bank?: string;
+    // Rupees off, or percent of the price when discountType is 'percent'
+    discount: number;
+    discountType: 'flat' | 'percent';
+    // Most a percentage discount can take off
+    cap?: number;
+    // Minimum order value for the offer to apply
+    minSpend?: number;
+    // The offer as the store words it
+    description: string;
 }
 
 export interface PriceData {
     store: string;
+    // Listing price, before any offers
     price: number;
     currency: string;
     url: string;
     availability: 'in-stock' | 'out-of-stock' | 'limited';
+    offers: Offer[];
+    // What the buyer pays after appliedOffers: the best coupon, plus the best offer on their cards
+    effectivePrice: number;
+    appliedOffers: Offer[];
+    // How much more than the best price this store costs, both after offers
     savings?: number;
     isBestPrice: boolean;
+    // Set when cross-source validation does not trust this price
+    suspect?: boolean;
+    suspectReason?: string;
+}
+
+export interface AnalysisWarning {
+    field: 'price' | 'originalPrice' | 'rating' | 'reviewCount' | 'storePrice';
+    message: string;
+    scraped?: number;
+    gemini?: number;
+    store?: string;
 }
 
+export type ProductCategory =
+    | 'smartphone'
+    | 'laptop'
+    | 'audio'
+    | 'television'
+    | 'wearable'
+    | 'appliance'
+    | 'clothing'
+    | 'footwear'
+    | 'beauty'
+    | 'home'
+    | 'general';
+
 export interface AnalyzeRequest {
     url: string;
+    // Skip the analysis cache and run the pipeline again
+    refresh?: boolean;
 }
 
 export interface AnalyzeResponse {
     product: ProductData;
     prices: PriceData[];
     aiAnalysis: AnalysisResult;
+    warnings: AnalysisWarning[];
+    category: ProductCategory;
+    // 4–6 questions for Ask AI that make sense for this product
+    suggestedQuestions: string[];
     processingTime: number;
+    // Set when served from the analysis cache: when the analysis originally ran
+    cachedAt?: string;
 }
 
+export type AnalyzeStep = 'scrape' | 'gemini' | 'merge' | 'prices';
+
+// Events emitted by GET /api/analyze/stream while the pipeline runs
+export type AnalyzeProgressEvent =
+    | { type: 'step'; step: AnalyzeStep; message: string }
+    | { type: 'product'; product: ProductData; preliminary: boolean }
+    | { type: 'prices'; prices: PriceData[]; warnings: AnalysisWarning[] }
+    | { type: 'analysis'; delta: string };
+
 export interface GetPricesResponse {
     productId: string;
     prices: PriceData[];
     lastUpdated: string;
 }
 
+export interface RankPricesRequest {
+    // Store prices as returned by the other endpoints
+    prices: PriceData[];
+    // Banks whose card offers the user can use, as in Offer.bank
+    cards: string[];
+}
+
+export interface CompareRequest {
+    // 2–4 product URLs
+    urls: string[];
+    // Banks whose card offers the user can use, as in Offer.bank
+    cards?: string[];
+}
+
+// One specification across the compared products, in the order of `products`
+export interface SpecComparisonRow {
+    key: string;
+    // null where a product does not list this spec
+    values: Array<string | null>;
+    // Index of the product with the best value, or null if there is no clear winner
+    winner: number | null;
+}
+
+export interface ComparisonVerdict {
+    // Index of the recommended product, or null if the model found no overall winner
+    winner: number | null;
+    summary: string;
+    // Who each product suits best, in the order of `products`
+    bestFor: string[];
+    // Markdown explanation
+    content: string;
+}
+
+export interface CompareResponse {
+    products: AnalyzeResponse[];
+    specs: SpecComparisonRow[];
+    verdict: ComparisonVerdict;
+    processingTime: number;
+}
+
 export interface AskAIRequest {
     productData: {
         title: string;
@@ -69,10 +226,105 @@ export interface AskAIRequest {
         highlights?: string[];
     };
     question: string;
+    // Continue an earlier conversation; omit to start a new one
+    conversationId?: string;
 }
 
 export interface AskAIResponse {
     answer: string;
+    // 0..1, from grounding, spec citations and the model's self-assessment
     confidence: number;
+    sources: AnalysisResult['sources'];
+    conversationId: string;
+}
+
+export interface ConversationTurn {
+    role: 'user' | 'model';
+    text: string;
+    createdAt: string;
 }
 
+export interface Conversation {
+    id: string;
+    // Condensed version of turns that no longer fit in `turns`
+    summary?: string;
+    turns: ConversationTurn[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+
+export interface PriceHistoryEntry {
+    productId: string;
+    store: string;
+    price: number;
+    currency: string;
+    availability: PriceData['availability'];
+    url: string;
+    recordedAt: string;
+}
+
+export interface StorePriceHistory {
+    store: string;
+    currency: string;
+    points: {
+        price: number;
+        availability: PriceData['availability'];
+        recordedAt: string;
+    }[];
+    lowest: number;
+    highest: number;
+    average: number;
+}
+
+export interface PriceHistoryResponse {
+    productId: string;
+    stores: StorePriceHistory[];
+    firstSeen?: string;
+    lastSeen?: string;
+}
+
+export interface WebhookChannel {
+    type: 'webhook';
+    url: string;
+}
+
+export type NotificationChannel = WebhookChannel;
+
+export interface WatchlistRequest {
+    url: string;
+    targetPrice: number;
+    channel: NotificationChannel;
+    // Banks whose card offers count towards the target, as in Offer.bank
+    cards?: string[];
+}
+
+export interface WatchlistItem {
+    id: string;
+    productId: string;
+    url: string;
+    targetPrice: number;
+    channel: NotificationChannel;
+    // Banks whose card offers count towards the target
+    cards?: string[];
+    createdAt: string;
+    lastCheckedAt?: string;
+    lastPrice?: number;
+    lastNotifiedAt?: string;
+}
+
+export interface PriceAlert {
+    watchId: string;
+    productId: string;
+    productTitle: string;
+    url: string;
+    targetPrice: number;
+    store: string;
+    // After the offers on the watch's cards
+    price: number;
+    // Before any offers
+    listPrice: number;
+    currency: string;
+    storeUrl: string;
+    triggeredAt: string;
+}
@@ -0,0 +1,321 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { app } from '../src/app.js';
+import { createAnalysisCache } from '../src/services/analysisCache.js';
+import type { AnalyzeProgressListener } from '../src/services/analyzer.js';
+import { createMemoryCacheStore } from '../src/services/cacheStore.js';
+import { createFakeProvider, setLlmProvider } from '../src/services/llm/index.js';
+import { scrapeProduct } from '../src/services/scraper.js';
+import type { AnalyzeProgressEvent, AnalyzeResponse } from '../src/types/index.js';
+import { ANALYSIS, PRODUCT_URL, geminiReply, scraped } from './helpers.js';
+
+vi.mock('../src/services/scraper.js', () => ({ scrapeProduct: vi.fn() }));
+
+const scrapeMock = vi.mocked(scrapeProduct);
+let reply: () => string;
+
+beforeEach(() => {
+    scrapeMock.mockReset();
+    reply = () => geminiReply({});
+    setLlmProvider(createFakeProvider({ respond: () => reply() }));
+});
+
+// Merge tests change the stubs between runs of the same URL, so they bypass the cache
+async function analyze(url = PRODUCT_URL): Promise<AnalyzeResponse> {
+    const res = await request(app).post('/api/analyze').send({ url, refresh: true }).expect(200);
+    return res.body;
+}
+
+describe('POST /api/analyze', () => {
+    it('rejects a missing or malformed URL', async () => {
+        await request(app).post('/api/analyze').send({}).expect(400, { message: 'URL is required' });
+        await request(app).post('/api/analyze').send({ url: 'not a url' }).expect(400, { message: 'Invalid URL format' });
+        expect(scrapeMock).not.toHaveBeenCalled();
+    });
+
+    it('prefers scraped title, price and brand over Gemini', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+
+        const { product } = await analyze();
+
+        expect(product.title).toBe('Acme Phone 12 5G Smartphone (Midnight, 128GB)');
+        expect(product.price).toEqual({ current: 20000, original: 25000, currency: 'INR' });
+        expect(product.provenance).toMatchObject({ title: 'scraper', price: 'scraper', brand: 'scraper' });
+        expect(product.source).toEqual({ marketplace: 'Amazon', url: PRODUCT_URL });
+    });
+
+    it('picks the longer list and the larger spec sheet from either source', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+
+        const { product } = await analyze();
+
+        // Gemini had 3 images to the scraper's 1, the scraper had 3 specs to Gemini's 1
+        expect(product.images).toHaveLength(3);
+        expect(product.provenance.images).toBe('gemini');
+        expect(product.specifications).toEqual({ RAM: '8 GB', Storage: '128 GB', Battery: '5000 mAh' });
+        expect(product.provenance.specifications).toBe('scraper');
+        // On a tie the scraped list wins
+        expect(product.highlights).toEqual(['5000 mAh battery', '120Hz display']);
+    });
+
+    it('returns the merged specs both as listed and normalised', async () => {
+        scrapeMock.mockResolvedValue(scraped({ specifications: { Memory: '8 GB', 'Battery Capacity': '5,000 mAh' } }));
+
+        const { product } = await analyze();
+
+        expect(product.specifications).toEqual({ Memory: '8 GB', 'Battery Capacity': '5,000 mAh' });
+        expect(product.normalizedSpecifications).toMatchObject({
+            ram: { label: 'RAM', quantity: { value: 8, unit: 'GB' } },
+            battery: { label: 'Battery', quantity: { value: 5000, unit: 'mAh' } }
+        });
+    });
+
+    it('falls back to Gemini when the page could not be scraped', async () => {
+        scrapeMock.mockResolvedValue(null);
+
+        const { product } = await analyze();
+
+        expect(product.title).toBe('Acme Phone 12');
+        expect(product.price.current).toBe(20500);
+        expect(product.specifications).toEqual({ RAM: '8 GB' });
+        expect(product.provenance).toMatchObject({ title: 'gemini', price: 'gemini', images: 'gemini' });
+    });
+
+    it('adds the source store and marks the best price with savings for the rest', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => geminiReply({
+            prices: [
+                { store: 'Flipkart', price: 19000, currency: 'INR', url: 'https://www.flipkart.com/acme-phone-12/p/itm1', availability: 'in-stock' },
+                { store: 'Croma', price: 21500, currency: 'INR', url: 'https://www.croma.com/acme-phone-12/p/1', availability: 'in-stock' }
+            ]
+        });
+
+        const { prices } = await analyze();
+
+        expect(prices.map(p => p.store)).toEqual(['Amazon', 'Flipkart', 'Croma']);
+        expect(prices[0]).toMatchObject({ price: 20000, url: PRODUCT_URL, isBestPrice: false, savings: 1000 });
+        expect(prices[1]).toMatchObject({ price: 19000, isBestPrice: true });
+        expect(prices[1].savings).toBeUndefined();
+        expect(prices[2]).toMatchObject({ price: 21500, isBestPrice: false, savings: 2500 });
+    });
+
+    it('does not add the source store twice when Gemini already listed it', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => geminiReply({
+            prices: [
+                { store: 'Amazon', price: 20000, url: 'https://www.amazon.in/dp/B0TEST1234' },
+                { store: 'Flipkart', price: 20500, url: 'https://www.flipkart.com/acme-phone-12/p/itm1' }
+            ]
+        });
+
+        const { prices } = await analyze();
+
+        expect(prices.filter(p => p.store === 'Amazon')).toHaveLength(1);
+        expect(prices.find(p => p.isBestPrice)?.store).toBe('Amazon');
+    });
+
+    it('attaches store offers, preferring those read off the source page', async () => {
+        const scrapedCoupon = { type: 'coupon', discount: 500, discountType: 'flat', description: 'Apply ₹500 coupon' } as const;
+        scrapeMock.mockResolvedValue(scraped({ offers: [scrapedCoupon] }));
+        reply = () => geminiReply({
+            prices: [
+                { store: 'Amazon', price: 20000, url: PRODUCT_URL, offers: [{ type: 'coupon', discount: 300 }] },
+                {
+                    store: 'Flipkart',
+                    price: 19500,
+                    url: 'https://www.flipkart.com/acme-phone-12/p/itm1',
+                    offers: [
+                        { type: 'bank', bank: 'hdfc', discount: '10%', discountType: 'percent', cap: '₹1,500', minSpend: 0, description: '10% off on HDFC cards' },
+                        // Listed twice by the model
+                        { type: 'bank', bank: 'HDFC Bank', discount: 10, discountType: 'percent', cap: 1500, description: '10% off on HDFC cards' },
+                        // Unreadable offers are dropped, not the store
+                        { type: 'lucky draw', discount: 100 },
+                        { type: 'bank', discount: 150, discountType: 'percent' }
+                    ]
+                }
+            ]
+        });
+
+        const { prices } = await analyze();
+
+        expect(prices.find(p => p.store === 'Amazon')?.offers).toEqual([scrapedCoupon]);
+        expect(prices.find(p => p.store === 'Flipkart')?.offers).toEqual([
+            { type: 'bank', bank: 'HDFC Bank', discount: 10, discountType: 'percent', cap: 1500, description: '10% off on HDFC cards' }
+        ]);
+    });
+
+    it('ranks stores on the price after the offers anyone can use', async () => {
+        const scrapedCoupon = { type: 'coupon', discount: 1000, discountType: 'flat', description: 'Apply ₹1,000 coupon' } as const;
+        scrapeMock.mockResolvedValue(scraped({ offers: [scrapedCoupon] }));
+        reply = () => geminiReply({
+            prices: [
+                {
+                    store: 'Flipkart',
+                    price: 19500,
+                    url: 'https://www.flipkart.com/acme-phone-12/p/itm1',
+                    // Needs a card the user has not picked
+                    offers: [{ type: 'bank', bank: 'HDFC Bank', discount: 1500, discountType: 'flat', description: '₹1,500 off on HDFC cards' }]
+                }
+            ]
+        });
+
+        const { prices } = await analyze();
+
+        expect(prices.find(p => p.store === 'Amazon')).toMatchObject({ price: 20000, effectivePrice: 19000, appliedOffers: [scrapedCoupon], isBestPrice: true });
+        expect(prices.find(p => p.store === 'Flipkart')).toMatchObject({ price: 19500, effectivePrice: 19500, appliedOffers: [], savings: 500 });
+    });
+
+    it('never crowns a suspect price as the best price', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => geminiReply({
+            prices: [
+                // Claims to be Flipkart but links to another site
+                { store: 'Flipkart', price: 15000, url: 'https://deals.example.com/acme-phone-12' }
+            ]
+        });
+
+        const { prices, warnings } = await analyze();
+
+        const flipkart = prices.find(p => p.store === 'Flipkart')!;
+        expect(flipkart.suspect).toBe(true);
+        expect(flipkart.isBestPrice).toBe(false);
+        expect(prices.find(p => p.isBestPrice)?.store).toBe('Amazon');
+        expect(warnings.some(w => w.field === 'storePrice' && w.store === 'Flipkart')).toBe(true);
+    });
+
+    it('falls back to search links when no other store prices were found', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+
+        const { prices } = await analyze();
+
+        expect(prices[0]).toMatchObject({ store: 'Amazon', price: 20000, isBestPrice: true });
+        const searchLinks = prices.slice(1);
+        expect(searchLinks).toHaveLength(3);
+        for (const link of searchLinks) {
+            expect(link.price).toBe(0);
+            expect(link.store).not.toBe('Amazon');
+            expect(link.url).toMatch(/^https:\/\//);
+        }
+    });
+
+    it('returns the parsed verdict and category alongside the analysis', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+
+        const { aiAnalysis, category, suggestedQuestions } = await analyze();
+
+        expect(aiAnalysis.verdict).toMatchObject({ verdict: 'BUY', score: 7.5, priceAssessment: { rating: 'fair', summary: 'in line with other stores.' } });
+        expect(aiAnalysis.content).not.toContain('```json');
+        expect(category).toBe('smartphone');
+        expect(suggestedQuestions.length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('rates the price only when the analysis labels it', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => geminiReply({}, ANALYSIS.replace('**FAIR PRICE** in line', 'Priced in line'));
+
+        const { aiAnalysis } = await analyze();
+
+        expect(aiAnalysis.verdict).toMatchObject({ verdict: 'BUY', score: 7.5 });
+        expect(aiAnalysis.verdict?.priceAssessment).toBeUndefined();
+    });
+
+    it('leaves out a verdict whose score is off the scale', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => geminiReply({}, ANALYSIS.replace('7.5/10', '75/10'));
+
+        const { aiAnalysis } = await analyze();
+
+        expect(aiAnalysis.verdict).toBeNull();
+        expect(aiAnalysis.content).toContain('## Recommendation');
+    });
+
+    it('responds with 500 when the model fails', async () => {
+        scrapeMock.mockResolvedValue(scraped());
+        reply = () => {
+            throw new Error('quota exceeded');
+        };
+
+        const res = await request(app).post('/api/analyze').send({ url: PRODUCT_URL, refresh: true }).expect(500);
+
+        expect(res.body.message).toBe('Failed to analyze product. Please try again later.');
+    });
+});
+
+describe('analysis cache', () => {
+    // A product of its own, so merge tests above never leave it cached
+    const url = 'https://www.amazon.in/Acme-Buds-Pro/dp/B0CACHE001?tag=deals-21&utm_source=newsletter';
+
+    beforeEach(() => {
+        scrapeMock.mockResolvedValue(scraped());
+    });
+
+    it('serves the same product from cache, whatever the URL variant', async () => {
+        const first = await request(app).post('/api/analyze').send({ url }).expect(200);
+        const second = await request(app).post('/api/analyze')
+            .send({ url: 'https://www.amazon.in/dp/B0CACHE001/ref=sr_1_1' })
+            .expect(200);
+
+        expect(first.body.cachedAt).toBeUndefined();
+        expect(second.body.cachedAt).toEqual(expect.any(String));
+        expect(second.body.product.id).toBe(first.body.product.id);
+        expect(scrapeMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-runs the pipeline when asked to refresh', async () => {
+        await request(app).post('/api/analyze').send({ url }).expect(200);
+        const runs = scrapeMock.mock.calls.length;
+
+        const res = await request(app).post('/api/analyze').send({ url, refresh: true }).expect(200);
+
+        expect(res.body.cachedAt).toBeUndefined();
+        expect(scrapeMock).toHaveBeenCalledTimes(runs + 1);
+    });
+
+    it('shares one pipeline run between concurrent requests', async () => {
+        const concurrentUrl = 'https://www.flipkart.com/acme-tv/p/itm0cache02?pid=TVACME123';
+        const [a, b] = await Promise.all([
+            request(app).post('/api/analyze').send({ url: concurrentUrl }),
+            request(app).post('/api/analyze').send({ url: `${concurrentUrl}&affid=partner` })
+        ]);
+
+        expect(a.status).toBe(200);
+        expect(b.body.product.id).toBe(a.body.product.id);
+        expect(scrapeMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives different products on the same store different IDs', async () => {
+        const one = await analyze('https://www.amazon.in/dp/B0DIFFER01');
+        const two = await analyze('https://www.amazon.in/dp/B0DIFFER02');
+
+        expect(one.product.id).not.toBe(two.product.id);
+    });
+});
+
+describe('createAnalysisCache', () => {
+    it('catches a request that joins a running analysis up on its progress', async () => {
+        let emit: AnalyzeProgressListener | undefined;
+        let finish: (response: AnalyzeResponse) => void = () => {};
+        const pipeline = vi.fn((_url: string, onProgress?: AnalyzeProgressListener) => new Promise<AnalyzeResponse>(resolve => {
+            emit = onProgress;
+            finish = resolve;
+        }));
+        const cache = createAnalysisCache({ store: createMemoryCacheStore(), ttlMs: 60_000, analyze: pipeline });
+        const first: AnalyzeProgressEvent[] = [];
+        const second: AnalyzeProgressEvent[] = [];
+
+        const running = cache.analyze(PRODUCT_URL, { onProgress: event => first.push(event) });
+        await vi.waitFor(() => expect(emit).toBeDefined());
+        emit!({ type: 'step', step: 'scrape', message: 'Reading the product page...' });
+
+        const joined = cache.analyze(PRODUCT_URL, { onProgress: event => second.push(event) });
+        // Replayed as soon as it joins
+        await vi.waitFor(() => expect(second).toHaveLength(1));
+        emit!({ type: 'analysis', delta: 'Solid phone.' });
+        finish({} as AnalyzeResponse);
+        await Promise.all([running, joined]);
+
+        expect(pipeline).toHaveBeenCalledTimes(1);
+        expect(second).toEqual(first);
+        expect(second.map(event => event.type)).toEqual(['step', 'analysis']);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { citesProductSpecs, scoreAnswerConfidence } from '../src/services/answerConfidence.js';
+
+describe('scoreAnswerConfidence', () => {
+    it('weighs grounding, spec citations and the self-assessment', () => {
+        expect(scoreAnswerConfidence({ groundingChunks: 4, supportScores: [1, 1], citesProductSpecs: true, selfAssessment: 1 })).toBe(1);
+        expect(scoreAnswerConfidence({ groundingChunks: 0, supportScores: [], citesProductSpecs: false, selfAssessment: 0 })).toBe(0);
+        // Two of four sources with no support scores count for a quarter of the grounding weight
+        expect(scoreAnswerConfidence({ groundingChunks: 2, supportScores: [], citesProductSpecs: false, selfAssessment: 0 })).toBe(0.11);
+    });
+
+    it('treats a missing self-assessment as neutral and clamps out-of-range ones', () => {
+        const base = { groundingChunks: 0, supportScores: [], citesProductSpecs: false };
+
+        expect(scoreAnswerConfidence({ ...base, selfAssessment: null })).toBe(0.2);
+        expect(scoreAnswerConfidence({ ...base, selfAssessment: 7 })).toBe(0.4);
+    });
+});
+
+describe('citesProductSpecs', () => {
+    const product = { specifications: { Battery: '5000 mAh', SIM: '2' }, highlights: ['120Hz display'] };
+
+    it('spots spec values and highlights in the answer', () => {
+        expect(citesProductSpecs('The 5000 MAH battery lasts all day.', product)).toBe(true);
+        expect(citesProductSpecs('Scrolling is smooth on the 120Hz display.', product)).toBe(true);
+    });
+
+    it('ignores values too short to be meaningful', () => {
+        expect(citesProductSpecs('It has 2 speakers.', product)).toBe(false);
+        expect(citesProductSpecs('Anything', {})).toBe(false);
+    });
+});
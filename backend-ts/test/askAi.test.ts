@@ -0,0 +1,156 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { app } from '../src/app.js';
+import { createFakeProvider, setLlmProvider } from '../src/services/llm/index.js';
+import type { LlmMessage } from '../src/services/llm/index.js';
+
+const productData = {
+    title: 'Acme Phone 12',
+    price: { current: 20000, currency: 'INR' },
+    specifications: { Battery: '5000 mAh' },
+    ratings: { average: 4.2, count: 1200 },
+    highlights: ['120Hz display']
+};
+
+let reply: () => string;
+let llm: ReturnType<typeof createFakeProvider>;
+
+beforeEach(() => {
+    reply = () => 'The 5000 mAh battery lasts a full day.\n[[ASSESSMENT {"confidence": 0.9}]]';
+    llm = createFakeProvider({ respond: () => reply() });
+    setLlmProvider(llm);
+});
+
+describe('POST /api/ask-ai', () => {
+    it('requires a question', async () => {
+        await request(app).post('/api/ask-ai').send({ productData }).expect(400, { message: 'Question is required' });
+        await request(app).post('/api/ask-ai').send({ productData, question: '' }).expect(400);
+        expect(llm.calls).toHaveLength(0);
+    });
+
+    it('answers without the self-assessment and scores its confidence', async () => {
+        const res = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'How long does the battery last?' })
+            .expect(200);
+
+        expect(res.body.answer).toBe('The 5000 mAh battery lasts a full day.');
+        // Spec cited and a confident self-assessment, but no web sources
+        expect(res.body.confidence).toBeCloseTo(0.15 + 0.4 * 0.9);
+        expect(res.body.sources).toEqual([]);
+        expect(res.body.conversationId).toEqual(expect.any(String));
+    });
+
+    it('continues a conversation by its ID', async () => {
+        const first = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'How long does the battery last?' })
+            .expect(200);
+
+        const second = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'And with gaming?', conversationId: first.body.conversationId })
+            .expect(200);
+
+        expect(second.body.conversationId).toBe(first.body.conversationId);
+        const history = llm.calls[1].prompt as LlmMessage[];
+        expect(history.map(m => m.role)).toEqual(['user', 'model', 'user']);
+        expect(history[1].text).toBe('The 5000 mAh battery lasts a full day.');
+    });
+
+    it('starts a new conversation for an unknown ID', async () => {
+        const res = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'Is it good?', conversationId: 'expired-or-made-up' })
+            .expect(200);
+
+        expect(res.body.conversationId).not.toBe('expired-or-made-up');
+        expect(llm.calls[0].prompt).toHaveLength(1);
+    });
+
+    it('responds with 500 when the model fails', async () => {
+        reply = () => {
+            throw new Error('quota exceeded');
+        };
+
+        const res = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'Is it good?' })
+            .expect(500);
+
+        expect(res.body.message).toBe('Failed to get AI response. Please try again later.');
+    });
+
+    it('apologises instead of returning an empty answer', async () => {
+        reply = () => '[[ASSESSMENT {"confidence": 0.2}]]';
+
+        const res = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'Is it good?' })
+            .expect(200);
+
+        expect(res.body).toMatchObject({ answer: "I couldn't generate an answer. Please try again.", confidence: 0 });
+    });
+});
+
+describe('POST /api/ask-ai/stream', () => {
+    it('validates before opening the stream', async () => {
+        const res = await request(app).post('/api/ask-ai/stream').send({ productData }).expect(400);
+
+        expect(res.headers['content-type']).toMatch(/application\/json/);
+    });
+
+    it('streams the answer as server-sent events', async () => {
+        const res = await request(app).post('/api/ask-ai/stream')
+            .send({ productData, question: 'How long does the battery last?' })
+            .buffer(true)
+            .parse((response, callback) => {
+                let body = '';
+                response.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+                response.on('end', () => callback(null, body));
+            })
+            .expect(200);
+
+        const events = (res.body as string).trim().split('\n\n').map(block => block.split('\n')[0].replace('event: ', ''));
+        expect(events[0]).toBe('start');
+        expect(events).toContain('delta');
+        expect(events.at(-1)).toBe('done');
+        expect(res.body).not.toContain('ASSESSMENT');
+    });
+
+    it('reports model failures as an error event', async () => {
+        reply = () => {
+            throw new Error('quota exceeded');
+        };
+
+        const res = await request(app).post('/api/ask-ai/stream')
+            .send({ productData, question: 'Is it good?' })
+            .buffer(true)
+            .parse((response, callback) => {
+                let body = '';
+                response.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+                response.on('end', () => callback(null, body));
+            })
+            .expect(200);
+
+        expect(res.body).toContain('event: error');
+        expect(res.body).toContain('Failed to get AI response');
+    });
+
+    it('keeps the conversation it started when the answer does not finish', async () => {
+        reply = () => {
+            throw new Error('quota exceeded');
+        };
+        const failed = await request(app).post('/api/ask-ai/stream')
+            .send({ productData, question: 'Is it good?' })
+            .buffer(true)
+            .parse((response, callback) => {
+                let body = '';
+                response.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+                response.on('end', () => callback(null, body));
+            })
+            .expect(200);
+        const started = JSON.parse((failed.body as string).split('\n')[1].replace('data: ', '')) as { conversationId: string };
+
+        reply = () => 'It is.\n[[ASSESSMENT {"confidence": 0.9}]]';
+        const res = await request(app).post('/api/ask-ai')
+            .send({ productData, question: 'Is it good?', conversationId: started.conversationId })
+            .expect(200);
+
+        expect(res.body.conversationId).toBe(started.conversationId);
+    });
+});
@@ -0,0 +1,98 @@
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore, createRedisCacheStore } from '../src/services/cacheStore.js';
+
+describe('memory cache store', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns values until their TTL runs out', async () => {
+        const store = createMemoryCacheStore<{ n: number }>();
+        await store.set('a', { n: 1 }, 1000);
+
+        vi.advanceTimersByTime(999);
+        expect(await store.get('a')).toEqual({ n: 1 });
+
+        vi.advanceTimersByTime(1);
+        expect(await store.get('a')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entry beyond its size bound', async () => {
+        const store = createMemoryCacheStore<string>({ maxEntries: 2 });
+        await store.set('a', 'A', 60_000);
+        await store.set('b', 'B', 60_000);
+
+        // Reading `a` makes `b` the least recently used
+        await store.get('a');
+        await store.set('c', 'C', 60_000);
+
+        expect(store.size).toBe(2);
+        expect(await store.get('a')).toBe('A');
+        expect(await store.get('b')).toBeUndefined();
+        expect(await store.get('c')).toBe('C');
+    });
+
+    it('sweeps expired entries nobody reads again', async () => {
+        const store = createMemoryCacheStore<string>({ sweepIntervalMs: 1000 });
+        await store.set('short', 'x', 500);
+        await store.set('long', 'y', 5000);
+
+        vi.advanceTimersByTime(1000);
+
+        expect(store.size).toBe(1);
+        expect(await store.get('long')).toBe('y');
+    });
+
+    it('deletes entries', async () => {
+        const store = createMemoryCacheStore<string>();
+        await store.set('a', 'A', 60_000);
+        await store.delete('a');
+
+        expect(await store.get('a')).toBeUndefined();
+    });
+});
+
+describe('Redis cache store', () => {
+    let redis: Redis;
+
+    beforeEach(async () => {
+        redis = new RedisMock() as unknown as Redis;
+        await redis.flushall();
+    });
+
+    it('round-trips values as JSON under a namespaced key', async () => {
+        const store = createRedisCacheStore<{ prices: number[] }>(redis, 'buysense:test');
+        await store.set('p1', { prices: [100, 200] }, 60_000);
+
+        expect(await store.get('p1')).toEqual({ prices: [100, 200] });
+        expect(await redis.get('buysense:test:p1')).toBe('{"prices":[100,200]}');
+        expect(await store.get('missing')).toBeUndefined();
+    });
+
+    it('leaves expiry to Redis', async () => {
+        const store = createRedisCacheStore<string>(redis, 'buysense:test');
+        await store.set('p1', 'x', 30_000);
+
+        const ttl = await redis.pttl('buysense:test:p1');
+        expect(ttl).toBeGreaterThan(29_000);
+        expect(ttl).toBeLessThanOrEqual(30_000);
+    });
+
+    it('keeps namespaces apart and deletes entries', async () => {
+        const prices = createRedisCacheStore<string>(redis, 'buysense:prices');
+        const analyses = createRedisCacheStore<string>(redis, 'buysense:analyses');
+        await prices.set('p1', 'prices', 60_000);
+        await analyses.set('p1', 'analysis', 60_000);
+
+        await prices.delete('p1');
+
+        expect(await prices.get('p1')).toBeUndefined();
+        expect(await analyses.get('p1')).toBe('analysis');
+    });
+});
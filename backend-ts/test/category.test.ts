@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCategory, suggestQuestions } from '../src/services/category.js';
+
+describe('classifyCategory', () => {
+    it('classifies from the title first', () => {
+        expect(classifyCategory({ title: 'Acme Phone 12 5G Smartphone', specifications: {} }, 'Amazon')).toBe('smartphone');
+        expect(classifyCategory({ title: 'Acme Watch Pro Smartwatch', specifications: {} }, 'Amazon')).toBe('wearable');
+    });
+
+    it('lets the title outweigh categories the specs merely mention', () => {
+        const product = { title: 'Acme Buds TWS Earbuds', specifications: { Compatibility: 'Any smartphone or laptop' } };
+
+        expect(classifyCategory(product, 'Flipkart')).toBe('audio');
+    });
+
+    it('falls back to spec keys, then to the marketplace', () => {
+        expect(classifyCategory({ title: 'Acme X1', specifications: { Processor: 'M3', SSD: '512 GB' } }, 'Croma')).toBe('laptop');
+        expect(classifyCategory({ title: 'Acme X1', specifications: {} }, 'Myntra')).toBe('clothing');
+        expect(classifyCategory({ title: 'Acme X1', specifications: {} }, 'Amazon')).toBe('general');
+    });
+});
+
+describe('suggestQuestions', () => {
+    it("keeps the model's questions and tops them up from the category", () => {
+        const questions = suggestQuestions('smartphone', ['Does it support eSIM?', 'Not a question', 'does it support esim?']);
+
+        expect(questions).toEqual([
+            'Does it support eSIM?',
+            'How is the battery life with heavy use?',
+            'How good is the camera in low light?',
+            'How many years of software updates will it get?'
+        ]);
+    });
+
+    it('stops at six', () => {
+        const generated = Array.from({ length: 8 }, (_, i) => `Question ${i + 1}?`);
+
+        expect(suggestQuestions('general', generated)).toEqual(generated.slice(0, 6));
+    });
+});
@@ -0,0 +1,142 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { app } from '../src/app.js';
+import { compareAnalyses } from '../src/services/comparison.js';
+import { createFakeProvider, setLlmProvider } from '../src/services/llm/index.js';
+import { scrapeProduct } from '../src/services/scraper.js';
+import { alignSpecifications } from '../src/services/specAlignment.js';
+import { normalizeSpecifications } from '../src/services/specNormalizer.js';
+import type { AnalyzeResponse, CompareResponse } from '../src/types/index.js';
+import { PRODUCT_URL, geminiReply, scraped } from './helpers.js';
+
+vi.mock('../src/services/scraper.js', () => ({ scrapeProduct: vi.fn() }));
+
+const OTHER_URL = 'https://www.amazon.in/Zeta-Phone-5-Graphite-256GB/dp/B0TEST5678';
+
+const VERDICT = '```json\n' + JSON.stringify({
+    winner: 2,
+    summary: 'The Zeta Phone 5 gives more memory and storage for less.',
+    bestFor: ['Battery life', 'Power users']
+}) + '\n```\n\n## Head to Head\nThe Zeta is faster.\n\n## Which One Should You Buy?\nThe Zeta.';
+
+let llm: ReturnType<typeof createFakeProvider>;
+
+beforeEach(() => {
+    vi.mocked(scrapeProduct).mockReset();
+    vi.mocked(scrapeProduct).mockImplementation(async (url) => url === OTHER_URL
+        ? scraped({
+            title: 'Zeta Phone 5 5G Smartphone (Graphite, 256GB)',
+            brand: 'Zeta',
+            price: { current: 18000, currency: 'INR' },
+            specifications: { Memory: '12 GB', 'Internal Storage': '256 GB', 'Battery Capacity': '4500 mAh', Weight: '190 g' }
+        })
+        : scraped()
+    );
+    llm = createFakeProvider({ respond: (request) => (request.task === 'compare' ? VERDICT : geminiReply({})) });
+    setLlmProvider(llm);
+});
+
+async function compare(urls = [PRODUCT_URL, OTHER_URL]): Promise<CompareResponse> {
+    const res = await request(app).post('/api/compare').send({ urls }).expect(200);
+    return res.body;
+}
+
+describe('POST /api/compare', () => {
+    it('takes between two and four distinct, valid URLs', async () => {
+        const message = 'Provide between 2 and 4 product URLs';
+        await request(app).post('/api/compare').send({}).expect(400, { message });
+        await request(app).post('/api/compare').send({ urls: [PRODUCT_URL] }).expect(400, { message });
+        await request(app).post('/api/compare').send({ urls: Array(5).fill(PRODUCT_URL) }).expect(400, { message });
+        await request(app).post('/api/compare').send({ urls: [PRODUCT_URL, 'not a url'] })
+            .expect(400, { message: 'Invalid URL format: not a url' });
+        // Same product, only a tracking parameter differs
+        await request(app).post('/api/compare').send({ urls: [PRODUCT_URL, `${PRODUCT_URL}?tag=deals-21`] })
+            .expect(400, { message: 'Each URL must be a different product' });
+
+        expect(scrapeProduct).not.toHaveBeenCalled();
+    });
+
+    it('lines up specs stored under different names and marks the best value per row', async () => {
+        const { products, specs } = await compare();
+
+        expect(products.map(p => p.product.brand)).toEqual(['Acme', 'Zeta']);
+        const rows = Object.fromEntries(specs.map(row => [row.key, row]));
+        expect(rows['Best Price']).toEqual({ key: 'Best Price', values: ['₹20,000', '₹18,000'], winner: 1 });
+        expect(rows.RAM).toEqual({ key: 'RAM', values: ['8 GB', '12 GB'], winner: 1 });
+        expect(rows.Storage).toEqual({ key: 'Storage', values: ['128 GB', '256 GB'], winner: 1 });
+        expect(rows.Battery).toEqual({ key: 'Battery', values: ['5000 mAh', '4500 mAh'], winner: 0 });
+        // Only one product lists a weight, so there is nothing to compare
+        expect(rows.Weight).toEqual({ key: 'Weight', values: [null, '190 g'], winner: null });
+    });
+
+    it('normalises the specs of analyses cached before they were stored', async () => {
+        const { products } = await compare();
+        const stale = products.map(({ product, ...rest }) => ({ ...rest, product: { ...product, normalizedSpecifications: undefined } }));
+
+        const { specs } = await compareAnalyses(stale as unknown as AnalyzeResponse[]);
+
+        expect(specs.find(row => row.key === 'RAM')).toEqual({ key: 'RAM', values: ['8 GB', '12 GB'], winner: 1 });
+    });
+
+    it('returns the verdict with the winner indexed like products', async () => {
+        const { verdict } = await compare();
+
+        expect(verdict).toEqual({
+            winner: 1,
+            summary: 'The Zeta Phone 5 gives more memory and storage for less.',
+            bestFor: ['Battery life', 'Power users'],
+            content: '## Head to Head\nThe Zeta is faster.\n\n## Which One Should You Buy?\nThe Zeta.'
+        });
+        const prompt = llm.calls.find(call => call.task === 'compare')?.prompt;
+        expect(prompt).toContain('Product 1: Acme Phone 12 5G Smartphone');
+        expect(prompt).toContain('Product 2: Zeta Phone 5 5G Smartphone');
+    });
+
+    it('reuses cached analyses', async () => {
+        await compare();
+        vi.mocked(scrapeProduct).mockClear();
+
+        const { products } = await compare();
+
+        expect(scrapeProduct).not.toHaveBeenCalled();
+        expect(products.every(p => p.cachedAt)).toBe(true);
+    });
+
+    it('names the products that could not be analyzed', async () => {
+        const brokenUrl = 'https://www.amazon.in/Broken-Phone/dp/B0TEST0000';
+        setLlmProvider(createFakeProvider({
+            respond: (request) => {
+                if (String(request.prompt).includes(brokenUrl)) throw new Error('quota exceeded');
+                return geminiReply({});
+            }
+        }));
+
+        const res = await request(app).post('/api/compare').send({ urls: [PRODUCT_URL, brokenUrl] }).expect(500);
+
+        expect(res.body.failed).toEqual([brokenUrl]);
+    });
+});
+
+describe('alignSpecifications', () => {
+    it('compares sizes across units and leaves ties and non-numeric rows without a winner', () => {
+        const rows = alignSpecifications([
+            normalizeSpecifications({ 'Storage Capacity': '1 TB', RAM: '8 GB', Processor: 'Snapdragon 8 Gen 3' }, 'smartphone'),
+            normalizeSpecifications({ ROM: '512 GB', 'RAM Size': '8GB', Chipset: 'Dimensity 9300' }, 'smartphone')
+        ]);
+
+        expect(rows).toEqual([
+            { key: 'Processor', values: ['Snapdragon 8 Gen 3', 'Dimensity 9300'], winner: null },
+            { key: 'RAM', values: ['8 GB', '8GB'], winner: null },
+            { key: 'Storage', values: ['1 TB', '512 GB'], winner: 0 }
+        ]);
+    });
+
+    it('has no winner when a listed value cannot be read', () => {
+        const [row] = alignSpecifications([
+            normalizeSpecifications({ Battery: '5000 mAh' }, 'smartphone'),
+            normalizeSpecifications({ Battery: 'Long lasting' }, 'smartphone')
+        ]);
+
+        expect(row.winner).toBeNull();
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { appendExchange, createConversation } from '../src/services/conversations.js';
+import type { ConversationSummarizer } from '../src/services/conversations.js';
+import type { Conversation } from '../src/types/index.js';
+
+async function withExchanges(count: number, summarize: ConversationSummarizer): Promise<Conversation> {
+    let conversation = createConversation();
+    for (let i = 1; i <= count; i++) {
+        conversation = await appendExchange(conversation, `Question ${i}?`, `Answer ${i}.`, summarize);
+    }
+    return conversation;
+}
+
+describe('appendExchange', () => {
+    it('keeps short conversations verbatim', async () => {
+        const summarize = vi.fn(async () => 'summary');
+
+        const conversation = await withExchanges(6, summarize);
+
+        expect(conversation.turns).toHaveLength(12);
+        expect(conversation.turns.slice(0, 2).map(t => [t.role, t.text])).toEqual([['user', 'Question 1?'], ['model', 'Answer 1.']]);
+        expect(conversation.summary).toBeUndefined();
+        expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('folds the oldest turns into the summary once the conversation grows too long', async () => {
+        const summarize = vi.fn(async (previous: string | undefined, turns: Conversation['turns']) =>
+            `${previous ?? ''}[${turns.length} turns]`);
+
+        const conversation = await withExchanges(7, summarize);
+
+        expect(summarize).toHaveBeenCalledWith(undefined, expect.any(Array));
+        expect(summarize.mock.calls[0][1][0].text).toBe('Question 1?');
+        expect(conversation.summary).toBe('[8 turns]');
+        expect(conversation.turns.map(t => t.text)).toEqual([
+            'Question 5?', 'Answer 5.', 'Question 6?', 'Answer 6.', 'Question 7?', 'Answer 7.'
+        ]);
+    });
+
+    it('still records the exchange when summarising fails', async () => {
+        const conversation = await withExchanges(7, vi.fn(async () => {
+            throw new Error('quota exceeded');
+        }));
+
+        expect(conversation.summary).toBeUndefined();
+        expect(conversation.turns.at(-1)?.text).toBe('Answer 7.');
+    });
+});
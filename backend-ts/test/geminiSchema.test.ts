@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { analyzeProduct } from '../src/services/gemini.js';
+import { parseGeminiData, repairJson } from '../src/services/geminiSchema.js';
+import { createFakeProvider, setLlmProvider } from '../src/services/llm/index.js';
+import { ANALYSIS, PRODUCT_URL } from './helpers.js';
+
+// Data blocks captured from malformed model replies
+function corpus(name: string): string {
+    return readFileSync(new URL(`./fixtures/gemini/${name}.txt`, import.meta.url), 'utf8');
+}
+
+function parsed(name: string) {
+    const result = parseGeminiData(corpus(name));
+    if (!result.success) throw new Error(`${name} did not parse: ${result.error}`);
+    return result.data;
+}
+
+describe('repairJson', () => {
+    it.each(['truncated-in-string', 'truncated-after-key', 'trailing-commas', 'prose-around-fence', 'js-style'])(
+        'turns %s into valid JSON',
+        name => {
+            expect(() => JSON.parse(corpus(name))).toThrow();
+            expect(() => JSON.parse(repairJson(corpus(name)))).not.toThrow();
+        }
+    );
+
+    it('leaves valid JSON as it is', () => {
+        const json = '{"product": {"title": "Acme"}, "prices": []}';
+
+        expect(repairJson(json)).toBe(json);
+    });
+});
+
+describe('parseGeminiData', () => {
+    it('keeps every complete entry of a response cut off mid-string', () => {
+        const { product, prices } = parsed('truncated-in-string');
+
+        expect(product.highlights).toEqual(['120Hz AMOLED display', '67W fast charging']);
+        expect(prices.map(p => p.store)).toEqual(['Flipkart', 'Croma']);
+        // The half-written URL is dropped, not kept
+        expect(prices[1]).toMatchObject({ price: 20990, url: '' });
+    });
+
+    it('keeps an entry whose last key had no value yet', () => {
+        const { prices } = parsed('truncated-after-key');
+
+        expect(prices).toEqual([
+            { store: 'Flipkart', price: 19499, currency: 'INR', url: 'https://www.flipkart.com/acme-phone-12/p/itm1', availability: 'in-stock', offers: [] }
+        ]);
+    });
+
+    it('drops trailing commas', () => {
+        const { product, prices, suggestedQuestions } = parsed('trailing-commas');
+
+        expect(product.price).toEqual({ current: 2999, original: 4999, currency: 'INR' });
+        expect(product.images).toHaveLength(2);
+        expect(prices).toHaveLength(1);
+        expect(suggestedQuestions).toEqual(['How good is the ANC?', 'Does it support multipoint?']);
+    });
+
+    it('reads the object out of prose around the code fence', () => {
+        expect(parsed('prose-around-fence').product).toMatchObject({ title: 'Acme Buds Pro', price: { current: 2999 } });
+    });
+
+    it('reads JavaScript and Python style literals', () => {
+        const { product } = parsed('js-style');
+
+        expect(product.title).toBe('Acme Smartwatch S2');
+        expect(product.price).toEqual({ current: 3499, original: undefined, currency: 'INR' });
+        expect(product.specifications).toEqual({ 'Water Resistance': '5 ATM', GPS: 'true' });
+    });
+
+    it('coerces numbers written as text and drops stores without a price', () => {
+        const { product, prices, suggestedQuestions } = parsed('numeric-strings');
+
+        expect(product.price).toEqual({ current: 41990, original: 59990, currency: 'INR' });
+        expect(product.ratings).toEqual({ average: 4.3, count: 12480 });
+        expect(product.images).toEqual(['https://img.example.com/tv-1.jpg']);
+        expect(product.highlights).toEqual(['Dolby Vision and Atmos']);
+        expect(product.specifications).toEqual({ 'Screen Size': '55', 'Refresh Rate': '60 Hz', HDR: 'true', Ports: 'HDMI, USB' });
+        expect(prices).toEqual([
+            { store: 'Flipkart', price: 40999, currency: 'INR', url: 'https://www.flipkart.com/acme-tv/p/itm2', availability: 'limited', offers: [] }
+        ]);
+        expect(suggestedQuestions).toEqual(['Is it good for gaming?']);
+    });
+
+    it('reports what failed validation when repair cannot help', () => {
+        const result = parseGeminiData(corpus('missing-title'));
+
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error).toMatch(/product\.title/);
+        expect(!result.success && result.error).toMatch(/product\.price\.current/);
+    });
+});
+
+describe('corrective re-prompt', () => {
+    let replies: Record<string, string>;
+    let llm: ReturnType<typeof createFakeProvider>;
+
+    beforeEach(() => {
+        replies = {
+            analyze: `\`\`\`json\n${corpus('missing-title')}\`\`\`\n\n${ANALYSIS}`,
+            repair: corpus('prose-around-fence')
+        };
+        llm = createFakeProvider({ respond: request => replies[request.task] });
+        setLlmProvider(llm);
+    });
+
+    it('asks once for a corrected block and uses it', async () => {
+        const result = await analyzeProduct(PRODUCT_URL);
+
+        expect(llm.calls.map(call => call.task)).toEqual(['analyze', 'repair']);
+        expect(llm.calls[1].prompt).toContain('product.title');
+        expect(llm.calls[1].prompt).toContain('"price": { "current": "Call for price"');
+        // Offers are part of the structure asked for, so a correction keeps them
+        expect(llm.calls[1].prompt).toContain('"offers": [{"type": "bank"');
+        expect(result.product.title).toBe('Acme Buds Pro');
+        // The analysis comes from the first reply
+        expect(result.analysis).toBe(ANALYSIS);
+    });
+
+    it('sends a reply with no closing fence to be corrected as a whole', async () => {
+        replies.analyze = `\`\`\`json\n${corpus('truncated-in-string')}`;
+
+        const result = await analyzeProduct(PRODUCT_URL);
+
+        expect(llm.calls[1].prompt).toContain('No ```json block found');
+        expect(llm.calls[1].prompt).toContain('"store": "Croma"');
+        expect(result.product.title).toBe('Acme Buds Pro');
+    });
+
+    it('falls back to an empty product when the correction is invalid too', async () => {
+        replies.repair = corpus('missing-title');
+
+        const result = await analyzeProduct(PRODUCT_URL);
+
+        expect(llm.calls).toHaveLength(2);
+        expect(result.product).toMatchObject({ title: 'Product', price: { current: 0 } });
+        expect(result.prices).toEqual([]);
+    });
+});
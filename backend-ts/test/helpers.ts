@@ -0,0 +1,59 @@
+import type { ScrapedProduct } from '../src/services/scraper.js';
+
+export const PRODUCT_URL = 'https://www.amazon.in/Acme-Phone-12-Midnight-128GB/dp/B0TEST1234';
+
+export const ANALYSIS = `## Summary
+A solid mid-range phone.
+
+## Pros
+- Bright display
+- Long battery life
+
+## Cons
+- Average low-light camera
+
+## Price Analysis
+**FAIR PRICE** in line with other stores.
+
+## BuySense Score: 7.5/10
+
+## Recommendation
+**BUY** if battery life matters most.`;
+
+export function scraped(overrides: Partial<ScrapedProduct> = {}): ScrapedProduct {
+    return {
+        title: 'Acme Phone 12 5G Smartphone (Midnight, 128GB)',
+        brand: 'Acme',
+        price: { current: 20000, original: 25000, currency: 'INR' },
+        images: ['https://m.media-amazon.com/images/I/one.jpg'],
+        specifications: { RAM: '8 GB', Storage: '128 GB', Battery: '5000 mAh' },
+        ratings: { average: 4.2, count: 1200 },
+        highlights: ['5000 mAh battery', '120Hz display'],
+        ...overrides
+    };
+}
+
+/**
+ * A Gemini analysis reply: the JSON data block followed by the markdown analysis
+ */
+export function geminiReply(data: { product?: Record<string, unknown>; prices?: unknown[]; suggestedQuestions?: string[] }, analysis = ANALYSIS): string {
+    const block = {
+        product: {
+            title: 'Acme Phone 12',
+            brand: 'Acme',
+            price: { current: 20500, currency: 'INR' },
+            images: [
+                'https://img.example.com/a.jpg',
+                'https://img.example.com/b.jpg',
+                'https://img.example.com/c.jpg'
+            ],
+            specifications: { RAM: '8 GB' },
+            ratings: { average: 4.1, count: 1000 },
+            highlights: ['Fast charging'],
+            ...data.product
+        },
+        prices: data.prices ?? [],
+        suggestedQuestions: data.suggestedQuestions ?? []
+    };
+    return `\`\`\`json\n${JSON.stringify(block, null, 2)}\n\`\`\`\n\n${analysis}`;
+}
@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { extractEmbeddedJson, extractProductFromEmbeddedState } from '../src/services/marketplaces/helpers.js';
+import { detectMarketplace, findMarketplace, listMarketplaces, registerMarketplace } from '../src/services/marketplaces/index.js';
+import type { MarketplaceAdapter } from '../src/services/marketplaces/index.js';
+
+// Saved product pages, trimmed to the parts the scrapers read
+function loadFixture(fixture: string) {
+    return cheerio.load(readFileSync(new URL(`./fixtures/pages/${fixture}`, import.meta.url), 'utf8'));
+}
+
+function scrapeFixture(url: string, fixture: string) {
+    const adapter = findMarketplace(url);
+    expect(adapter?.scrape).toBeDefined();
+    return adapter!.scrape!(loadFixture(fixture), url);
+}
+
+describe('marketplace adapters', () => {
+    it.each([
+        {
+            store: 'Croma',
+            url: 'https://www.croma.com/apple-iphone-15-128gb-black-/p/300652',
+            fixture: 'croma.html',
+            title: 'Apple iPhone 15 (128GB, Black)',
+            price: { current: 65990, original: 79900, currency: 'INR' },
+            availability: 'in-stock'
+        },
+        {
+            store: 'Reliance Digital',
+            url: 'https://www.reliancedigital.in/samsung-80-cm-32-inch-hd-ready-smart-led-tv/p/491894447',
+            fixture: 'reliance-digital.html',
+            title: 'Samsung 80 cm (32 inch) HD Ready Smart LED TV, UA32T4380AKXXL',
+            price: { current: 13490, original: 22900, currency: 'INR' },
+            availability: 'out-of-stock'
+        },
+        {
+            store: 'JioMart',
+            url: 'https://www.jiomart.com/p/electronics/boat-airdopes-141-tws-earbuds-bold-black/493665119',
+            fixture: 'jiomart.html',
+            title: 'boAt Airdopes 141 TWS Earbuds (Bold Black)',
+            price: { current: 1099, original: 4490, currency: 'INR' },
+            availability: 'limited'
+        },
+        {
+            store: 'Myntra',
+            url: 'https://www.myntra.com/shirts/roadster/roadster-men-black-slim-fit-casual-shirt/2313154/buy',
+            fixture: 'myntra.html',
+            title: 'Roadster Men Black Slim Fit Casual Shirt',
+            price: { current: 649, original: 1299, currency: 'INR' },
+            availability: 'in-stock'
+        },
+        {
+            store: 'Meesho',
+            url: 'https://www.meesho.com/trendy-cotton-kurti/p/41234567',
+            fixture: 'meesho.html',
+            title: 'Trendy Cotton Kurti',
+            price: { current: 399, original: 899, currency: 'INR' },
+            availability: 'out-of-stock'
+        }
+    ])('reads a $store product page', ({ url, fixture, title, price, availability }) => {
+        const product = scrapeFixture(url, fixture);
+
+        expect(product).toMatchObject({ title, price, availability });
+    });
+
+    it('reads the rest of a server-rendered page', () => {
+        const product = scrapeFixture('https://www.croma.com/apple-iphone-15-128gb-black-/p/300652', 'croma.html');
+
+        expect(product).toMatchObject({
+            brand: 'Apple',
+            ratings: { average: 4.5, count: 1324 },
+            specifications: { 'Internal Storage': '128 GB', 'Screen Size': '15.49 cm (6.1 inch)' },
+            highlights: expect.arrayContaining(['A16 Bionic Chip with 6-core CPU'])
+        });
+    });
+
+    it('reads the rest of an embedded state blob', () => {
+        const product = scrapeFixture('https://www.myntra.com/shirts/roadster/roadster-men-black-slim-fit-casual-shirt/2313154/buy', 'myntra.html');
+
+        expect(product).toMatchObject({
+            brand: 'Roadster',
+            ratings: { average: 4.1, count: 8542 },
+            // "NA" attributes are dropped
+            specifications: { Fabric: 'Cotton', Fit: 'Slim Fit' },
+            highlights: ['Black casual shirt, has a spread collar, long sleeves , curved hem']
+        });
+        expect(product?.images).toHaveLength(2);
+    });
+});
+
+describe('extractEmbeddedJson', () => {
+    it('reads a JSON script tag', () => {
+        const data = extractEmbeddedJson(loadFixture('next-data.html'), '__NEXT_DATA__') as { page: string };
+
+        expect(data.page).toBe('/p/[slug]');
+    });
+
+    it('reads a window assignment followed by more script', () => {
+        const state = extractEmbeddedJson(loadFixture('initial-state.html'), '__INITIAL_STATE__') as { user: unknown; cart: unknown };
+
+        expect(state.user).toEqual({ name: 'Guest' });
+        expect(state.cart).toEqual({ items: [] });
+    });
+
+    it('returns null when the page does not embed it', () => {
+        expect(extractEmbeddedJson(loadFixture('next-data.html'), '__INITIAL_STATE__')).toBeNull();
+    });
+});
+
+describe('extractProductFromEmbeddedState', () => {
+    it('finds the product in __NEXT_DATA__ and skips nodes that only look like one', () => {
+        expect(extractProductFromEmbeddedState(loadFixture('next-data.html'))).toEqual({
+            title: 'Acme Buds Pro Wireless Earbuds (Black)',
+            brand: 'Acme',
+            price: { current: 2999, original: 4999, currency: 'INR' },
+            images: ['https://img.example.com/buds-1.jpg', 'https://img.example.com/buds-2.jpg'],
+            ratings: { average: 4.2, count: 3187 },
+            specifications: { 'Battery Life': '30 hours', Bluetooth: '5.3' },
+            highlights: ['Active noise cancellation up to 35 dB', '30 hours of playback with the case']
+        });
+    });
+
+    it('finds a product nested deep in window.__INITIAL_STATE__', () => {
+        expect(extractProductFromEmbeddedState(loadFixture('initial-state.html'))).toEqual({
+            title: 'Acme Phone 12 5G (Midnight, 128 GB)',
+            brand: 'Acme',
+            price: { current: 18999, original: 24999, currency: 'INR' },
+            images: ['https://img.example.com/phone-12-1.jpg'],
+            ratings: { average: 4.4, count: 51230 },
+            specifications: { RAM: '8 GB', 'Network Type': '5G, 4G VoLTE' },
+            highlights: ['8 GB RAM | 128 GB ROM', '6.67 inch Full HD+ Display']
+        });
+    });
+
+    it('returns null for a page without embedded state', () => {
+        expect(extractProductFromEmbeddedState(cheerio.load('<html><body><h1>Acme Phone 12</h1></body></html>'))).toBeNull();
+    });
+});
+
+describe('marketplace registry', () => {
+    it('matches stores by hostname, including regional and short-link domains', () => {
+        expect(findMarketplace('https://www.amazon.in/dp/B0TEST1234')?.name).toBe('Amazon');
+        expect(findMarketplace('https://amzn.in/d/abc123')?.name).toBe('Amazon');
+        expect(findMarketplace('https://dl.flipkart.com/s/abc')?.name).toBe('Flipkart');
+        // Only the hostname counts, not a store name elsewhere in the URL
+        expect(findMarketplace('https://example.com/amazon.in/dp/B0TEST1234')).toBeNull();
+    });
+
+    it('names unknown stores and unparsable URLs Generic', () => {
+        expect(detectMarketplace('https://www.myntra.com/shirts/roadster/2313154/buy')).toBe('Myntra');
+        expect(detectMarketplace('https://shop.example.com/p/1')).toBe('Generic');
+        expect(detectMarketplace('not a url')).toBe('Generic');
+    });
+
+    it('adds new stores and replaces one registered under the same name', () => {
+        const adapter: MarketplaceAdapter = {
+            name: 'Acme Store',
+            hostnames: [/(^|\.)acme\.example$/],
+            canonicalUrl: (url) => url.origin + url.pathname,
+            extractProductId: () => null,
+            searchUrl: (query) => `https://acme.example/search?q=${encodeURIComponent(query)}`
+        };
+        const count = listMarketplaces().length;
+
+        registerMarketplace(adapter);
+        registerMarketplace({ ...adapter, extractProductId: () => 'SKU1' });
+
+        expect(listMarketplaces()).toHaveLength(count + 1);
+        expect(findMarketplace('https://shop.acme.example/p/1')?.extractProductId(new URL('https://shop.acme.example/p/1'))).toBe('SKU1');
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { getEffectivePrice, normalizeBank, parseOfferText, parseOffers, rankPrices } from '../src/services/offers.js';
+import type { Offer, PriceData } from '../src/types/index.js';
+
+describe('parseOfferText', () => {
+    it('reads a percentage bank offer with a cap and minimum spend', () => {
+        expect(parseOfferText('Bank Offer10% off on HDFC Bank Credit Card EMI Transactions, up to ₹1,500 on orders of ₹5,000 and aboveT&C')).toEqual({
+            type: 'bank',
+            bank: 'HDFC Bank',
+            discount: 10,
+            discountType: 'percent',
+            cap: 1500,
+            minSpend: 5000,
+            description: 'Bank Offer 10% off on HDFC Bank Credit Card EMI Transactions, up to ₹1,500 on orders of ₹5,000 and above'
+        });
+    });
+
+    it('keeps "up to ₹X" without a percentage as a cap, not a discount', () => {
+        const offer = parseOfferText('Bank Offer: Upto ₹1,500.00 discount on ICICI Bank Credit Card Transactions. Minimum purchase value ₹5,000');
+
+        expect(offer).toMatchObject({ type: 'bank', bank: 'ICICI Bank', discount: 0, discountType: 'flat', cap: 1500, minSpend: 5000 });
+        expect(getEffectivePrice(20000, [offer!], ['ICICI Bank'])).toEqual({ price: 20000, appliedOffers: [] });
+    });
+
+    it.each([
+        ['Apply ₹500 coupon', { type: 'coupon', discount: 500 }],
+        ['5% Unlimited Cashback on Flipkart Axis Bank Credit Card', { type: 'cashback', bank: 'Axis Bank', discount: 5, discountType: 'percent' }],
+        ['Exchange Offer: Up to ₹18,000 off on exchange', { type: 'exchange', discount: 0, cap: 18000 }],
+        ['No Cost EMI: Avail No Cost EMI on select cards', { type: 'no-cost-emi', discount: 0 }]
+    ])('reads %s', (text, expected) => {
+        expect(parseOfferText(text)).toMatchObject(expected);
+    });
+
+    it('ignores text that is not an offer or is already in the price', () => {
+        expect(parseOfferText('Get GST invoice and save up to 28% on business purchases')).toBeNull();
+        expect(parseOfferText('Special PriceGet extra ₹3000 off (price inclusive of cashback/coupon)')).toBeNull();
+    });
+});
+
+describe('parseOffers', () => {
+    it('drops duplicates', () => {
+        expect(parseOffers(['Apply ₹500 coupon', 'Apply ₹500 coupon', 'Free delivery'])).toHaveLength(1);
+    });
+});
+
+describe('normalizeBank', () => {
+    it('maps the ways stores name a bank onto one name', () => {
+        expect(normalizeBank('HDFC Bank Credit Card')).toBe('HDFC Bank');
+        expect(normalizeBank('hdfc')).toBe('HDFC Bank');
+        expect(normalizeBank('State Bank of India Debit Card')).toBe('SBI');
+        expect(normalizeBank('Some Local Bank')).toBeUndefined();
+    });
+});
+
+describe('getEffectivePrice', () => {
+    const coupon: Offer = { type: 'coupon', discount: 500, discountType: 'flat', description: 'Apply ₹500 coupon' };
+    const hdfc: Offer = { type: 'bank', bank: 'HDFC Bank', discount: 10, discountType: 'percent', cap: 1500, description: '10% off on HDFC Bank cards' };
+    const anyCard: Offer = { type: 'cashback', discount: 5, discountType: 'percent', description: '5% cashback on select cards' };
+
+    it('only takes a coupon off when the user has picked no cards', () => {
+        expect(getEffectivePrice(20000, [coupon, hdfc, anyCard], [])).toEqual({ price: 19500, appliedOffers: [coupon] });
+    });
+
+    it('adds the best offer on one of the cards, capped', () => {
+        expect(getEffectivePrice(20000, [coupon, hdfc, anyCard], ['HDFC Bank'])).toEqual({ price: 18000, appliedOffers: [coupon, hdfc] });
+    });
+
+    it('applies card offers without a bank once any card is picked', () => {
+        expect(getEffectivePrice(20000, [hdfc, anyCard], ['SBI'])).toEqual({ price: 19000, appliedOffers: [anyCard] });
+    });
+
+    it('skips offers below their minimum spend', () => {
+        expect(getEffectivePrice(4000, [{ ...coupon, minSpend: 5000 }], []).price).toBe(4000);
+    });
+});
+
+describe('rankPrices', () => {
+    const store = (name: string, price: number, offers: Offer[] = []): PriceData => ({
+        store: name, price, currency: 'INR', url: '', availability: 'in-stock', offers, effectivePrice: price, appliedOffers: [], isBestPrice: false
+    });
+    const prices = [
+        store('Amazon', 20000, [{ type: 'bank', bank: 'ICICI Bank', discount: 2000, discountType: 'flat', description: '₹2,000 off on ICICI Bank cards' }]),
+        store('Flipkart', 19000)
+    ];
+
+    it('ranks on the price after the offers on the given cards', () => {
+        expect(rankPrices(prices).map(p => [p.store, p.effectivePrice, p.isBestPrice, p.savings]))
+            .toEqual([['Amazon', 20000, false, 1000], ['Flipkart', 19000, true, undefined]]);
+        expect(rankPrices(prices, ['ICICI Bank']).map(p => [p.store, p.effectivePrice, p.isBestPrice, p.savings]))
+            .toEqual([['Amazon', 18000, true, undefined], ['Flipkart', 19000, false, 1000]]);
+    });
+
+    it('leaves the given prices as they were', () => {
+        rankPrices(prices, ['ICICI Bank']);
+
+        expect(prices[0]).toMatchObject({ effectivePrice: 20000, isBestPrice: false });
+    });
+});
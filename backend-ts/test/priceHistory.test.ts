@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { getPriceHistory, recordPrices } from '../src/services/priceHistory.js';
+import { getProductId } from '../src/services/productIdentity.js';
+import type { PriceData } from '../src/types/index.js';
+
+function price(store: string, amount: number, extra: Partial<PriceData> = {}): PriceData {
+    return {
+        store,
+        price: amount,
+        currency: 'INR',
+        url: `https://www.${store.toLowerCase()}.com/acme-phone-12`,
+        availability: 'in-stock',
+        offers: [],
+        effectivePrice: amount,
+        appliedOffers: [],
+        isBestPrice: false,
+        ...extra
+    };
+}
+
+const productId = getProductId('https://www.amazon.in/dp/B0HISTORY1');
+
+describe('recordPrices', () => {
+    it('keeps search links and suspect prices out of the history', async () => {
+        await recordPrices(productId, [
+            price('Amazon', 20000),
+            price('Flipkart', 9999, { suspect: true, suspectReason: 'Far below the other stores' }),
+            price('Croma', 0)
+        ], '2026-03-01T09:00:00.000Z');
+
+        const history = await getPriceHistory(productId);
+
+        expect(history.stores.map(s => [s.store, s.lowest])).toEqual([['Amazon', 20000]]);
+    });
+});
+
+describe('getPriceHistory', () => {
+    it('files rows recorded under the old URL-prefix IDs by their own listing URL', async () => {
+        const legacy = {
+            productId: 'aHR0cHM6Ly93d3cu',
+            store: 'Amazon',
+            price: 21000,
+            currency: 'INR',
+            availability: 'in-stock',
+            url: 'https://www.amazon.in/dp/B0LEGACY01?tag=deals-21',
+            recordedAt: '2026-01-01T09:00:00.000Z'
+        };
+        await fs.appendFile(process.env.PRICE_HISTORY_FILE!, `${JSON.stringify(legacy)}\nnot json\n`, 'utf8');
+        await recordPrices(getProductId('https://www.amazon.in/dp/B0LEGACY01'), [
+            price('Amazon', 20500, { url: 'https://www.amazon.in/dp/B0LEGACY01' })
+        ], '2026-02-01T09:00:00.000Z');
+
+        const history = await getPriceHistory(getProductId('https://www.amazon.in/dp/B0LEGACY01'));
+
+        expect(history.stores[0].points.map(p => p.price)).toEqual([21000, 20500]);
+        expect(history.firstSeen).toBe('2026-01-01T09:00:00.000Z');
+        expect((await getPriceHistory(productId)).stores[0].points).toHaveLength(1);
+    });
+});
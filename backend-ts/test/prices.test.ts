@@ -0,0 +1,211 @@
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { app, CACHE_TTL } from '../src/app.js';
+import { createFakeProvider, setLlmProvider } from '../src/services/llm/index.js';
+import { scrapeProduct } from '../src/services/scraper.js';
+import { PRODUCT_URL, geminiReply, scraped } from './helpers.js';
+
+vi.mock('../src/services/scraper.js', () => ({ scrapeProduct: vi.fn() }));
+
+const FLIPKART_URL = 'https://www.flipkart.com/acme-phone-12/p/itm1';
+
+let llm: ReturnType<typeof createFakeProvider>;
+// Reply to the price-only refresh prompt
+let priceReply: string;
+
+beforeEach(() => {
+    // Only Date is faked, so supertest's sockets and timers behave normally
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
+
+    vi.mocked(scrapeProduct).mockReset();
+    vi.mocked(scrapeProduct).mockResolvedValue(scraped());
+    priceReply = '```json\n{"prices": []}\n```';
+    llm = createFakeProvider({
+        respond: (request) => request.task === 'prices'
+            ? priceReply
+            : geminiReply({ prices: [{ store: 'Flipkart', price: 19500, url: FLIPKART_URL }] })
+    });
+    setLlmProvider(llm);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// Always a fresh analysis, so prices cached by an earlier test never leak in
+async function analyzeProductId(): Promise<string> {
+    const res = await request(app).post('/api/analyze').send({ url: PRODUCT_URL, refresh: true }).expect(200);
+    return res.body.product.id;
+}
+
+describe('GET /api/prices/:productId', () => {
+    it('returns 404 for a product that was never analyzed', async () => {
+        const res = await request(app).get('/api/prices/unknown-product').expect(404);
+
+        expect(res.body.productId).toBe('unknown-product');
+    });
+
+    it('serves the prices cached by the last analysis', async () => {
+        const productId = await analyzeProductId();
+
+        const res = await request(app).get(`/api/prices/${productId}`).expect(200);
+
+        expect(res.body.productId).toBe(productId);
+        expect(res.body.lastUpdated).toBe('2026-01-15T10:00:00.000Z');
+        expect(res.body.prices.map((p: { store: string }) => p.store)).toEqual(['Amazon', 'Flipkart']);
+    });
+
+    it('keeps serving the cache until the TTL is up', async () => {
+        const productId = await analyzeProductId();
+
+        vi.setSystemTime(Date.now() + CACHE_TTL - 1000);
+
+        await request(app).get(`/api/prices/${productId}`).expect(200);
+    });
+
+    it('expires cached prices after the TTL', async () => {
+        const productId = await analyzeProductId();
+
+        vi.setSystemTime(Date.now() + CACHE_TTL + 1000);
+
+        await request(app).get(`/api/prices/${productId}`).expect(404);
+    });
+
+    it('refreshes the cache when the product is analyzed again', async () => {
+        const productId = await analyzeProductId();
+
+        vi.setSystemTime(Date.now() + CACHE_TTL + 1000);
+        await analyzeProductId();
+
+        const res = await request(app).get(`/api/prices/${productId}`).expect(200);
+        expect(res.body.lastUpdated).toBe(new Date(Date.now()).toISOString());
+    });
+});
+
+describe('POST /api/prices/:productId/refresh', () => {
+    it('returns 404 for a product that was never analyzed', async () => {
+        await request(app).post('/api/prices/unknown-product/refresh').expect(404);
+        expect(llm.calls).toHaveLength(0);
+    });
+
+    it('re-checks prices with scrapers and a price-only prompt, not a full analysis', async () => {
+        const productId = await analyzeProductId();
+        llm.calls.length = 0;
+        vi.mocked(scrapeProduct).mockClear();
+
+        await request(app).post(`/api/prices/${productId}/refresh`).expect(200);
+
+        expect(llm.calls.map(call => call.task)).toEqual(['prices']);
+        expect(vi.mocked(scrapeProduct).mock.calls.map(([url]) => url).sort()).toEqual([FLIPKART_URL, PRODUCT_URL].sort());
+    });
+
+    it('recomputes the best price and savings from the new prices', async () => {
+        const productId = await analyzeProductId();
+
+        // Flipkart is now cheaper on its own page, Croma shows up in search
+        vi.mocked(scrapeProduct).mockImplementation(async (url) =>
+            url === FLIPKART_URL ? scraped({ price: { current: 18000, currency: 'INR' } }) : scraped()
+        );
+        priceReply = '```json\n' + JSON.stringify({
+            prices: [
+                { store: 'Flipkart', price: 19500, url: FLIPKART_URL },
+                { store: 'Croma', price: 20500, url: 'https://www.croma.com/acme-phone-12/p/1' }
+            ]
+        }) + '\n```';
+        vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+        const res = await request(app).post(`/api/prices/${productId}/refresh`).expect(200);
+
+        const byStore = Object.fromEntries(res.body.prices.map((p: { store: string }) => [p.store, p]));
+        expect(byStore.Flipkart).toMatchObject({ price: 18000, isBestPrice: true });
+        expect(byStore.Amazon).toMatchObject({ price: 20000, isBestPrice: false, savings: 2000 });
+        expect(byStore.Croma).toMatchObject({ price: 20500, savings: 2500 });
+        expect(res.body.lastUpdated).toBe(new Date(Date.now()).toISOString());
+
+        // The cached prices and the cached analysis both see the refresh
+        const prices = await request(app).get(`/api/prices/${productId}`).expect(200);
+        expect(prices.body.prices).toEqual(res.body.prices);
+        const analysis = await request(app).post('/api/analyze').send({ url: PRODUCT_URL }).expect(200);
+        expect(analysis.body.cachedAt).toEqual(expect.any(String));
+        expect(analysis.body.prices).toEqual(res.body.prices);
+    });
+
+    it('trusts the price scraped from the source page even when it is far below the others', async () => {
+        const productId = await analyzeProductId();
+
+        // A real sale on the source store, well away from the other stores' prices
+        vi.mocked(scrapeProduct).mockImplementation(async (url) =>
+            url === PRODUCT_URL ? scraped({ price: { current: 9000, currency: 'INR' } }) : scraped()
+        );
+        priceReply = '```json\n' + JSON.stringify({
+            prices: [
+                { store: 'Flipkart', price: 19500, url: FLIPKART_URL },
+                { store: 'Croma', price: 20500, url: 'https://www.croma.com/acme-phone-12/p/1' }
+            ]
+        }) + '\n```';
+
+        const res = await request(app).post(`/api/prices/${productId}/refresh`).expect(200);
+
+        const amazon = res.body.prices.find((p: { store: string }) => p.store === 'Amazon');
+        expect(amazon).toMatchObject({ price: 9000, isBestPrice: true });
+        expect(amazon.suspect).toBeUndefined();
+    });
+
+    it('can refresh a product whose cached prices have expired', async () => {
+        const productId = await analyzeProductId();
+
+        vi.setSystemTime(Date.now() + CACHE_TTL + 1000);
+        await request(app).get(`/api/prices/${productId}`).expect(404);
+
+        await request(app).post(`/api/prices/${productId}/refresh`).expect(200);
+        await request(app).get(`/api/prices/${productId}`).expect(200);
+    });
+
+    it('responds with 500 when the price lookup fails', async () => {
+        const productId = await analyzeProductId();
+        llm = createFakeProvider({
+            respond: () => {
+                throw new Error('quota exceeded');
+            }
+        });
+        setLlmProvider(llm);
+
+        const res = await request(app).post(`/api/prices/${productId}/refresh`).expect(500);
+
+        expect(res.body.message).toBe('Failed to look up store prices. Please try again later.');
+    });
+});
+
+describe('POST /api/prices/rank', () => {
+    it('ranks the analyzed prices again for the cards the user picked', async () => {
+        llm = createFakeProvider({
+            respond: () => geminiReply({
+                prices: [{
+                    store: 'Flipkart',
+                    price: 19500,
+                    url: FLIPKART_URL,
+                    offers: [{ type: 'bank', bank: 'Axis Bank', discount: 1000, discountType: 'flat', description: '₹1,000 off on Axis Bank cards' }]
+                }]
+            })
+        });
+        setLlmProvider(llm);
+        const analysis = await request(app).post('/api/analyze').send({ url: PRODUCT_URL, refresh: true }).expect(200);
+        expect(analysis.body.prices.find((p: { isBestPrice: boolean }) => p.isBestPrice).store).toBe('Flipkart');
+
+        const res = await request(app).post('/api/prices/rank')
+            .send({ prices: analysis.body.prices, cards: ['Axis Bank'] })
+            .expect(200);
+
+        const byStore = Object.fromEntries(res.body.prices.map((p: { store: string }) => [p.store, p]));
+        expect(byStore.Flipkart).toMatchObject({ price: 19500, effectivePrice: 18500, isBestPrice: true });
+        expect(byStore.Amazon).toMatchObject({ price: 20000, effectivePrice: 20000, savings: 1500 });
+    });
+
+    it('rejects anything but store prices and a list of banks', async () => {
+        await request(app).post('/api/prices/rank').send({ prices: 'cheap', cards: [] })
+            .expect(400, { message: 'prices must be a list of store prices with their offers' });
+        await request(app).post('/api/prices/rank').send({ prices: [], cards: 'HDFC Bank' })
+            .expect(400, { message: 'cards must be a list of bank names' });
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, getProductId, productIdentity } from '../src/services/productIdentity.js';
+
+describe('canonicalizeUrl', () => {
+    it('uses the store adapter for known marketplaces', () => {
+        expect(canonicalizeUrl('https://www.amazon.in/Acme-Phone-12/dp/b0test1234/ref=sr_1_1?tag=deals-21#reviews'))
+            .toBe('https://www.amazon.in/dp/B0TEST1234');
+    });
+
+    it('strips tracking parameters, the hash and trailing slashes elsewhere', () => {
+        expect(canonicalizeUrl('https://shop.example.com/phones/acme-12/?utm_source=mail&variant=blue&gclid=x#top'))
+            .toBe('https://shop.example.com/phones/acme-12?variant=blue');
+        // Parameter order does not matter
+        expect(canonicalizeUrl('https://shop.example.com/p?b=2&a=1')).toBe(canonicalizeUrl('https://shop.example.com/p?a=1&b=2'));
+    });
+});
+
+describe('getProductId', () => {
+    it('gives every URL variant of one product the same ID', () => {
+        const id = getProductId('https://www.amazon.in/Acme-Phone-12/dp/B0TEST1234?tag=deals-21');
+
+        expect(id).toMatch(/^[0-9a-f]{16}$/);
+        expect(getProductId('https://www.amazon.in/dp/B0TEST1234/ref=sr_1_1')).toBe(id);
+        expect(getProductId('https://www.flipkart.com/acme-tv/p/itm0cache02?pid=TVACME123&affid=partner'))
+            .toBe(getProductId('https://www.flipkart.com/acme-tv-55/p/itm0cache02?pid=tvacme123'));
+    });
+
+    it('keeps different products and stores apart', () => {
+        expect(getProductId('https://www.amazon.in/dp/B0DIFFER01')).not.toBe(getProductId('https://www.amazon.in/dp/B0DIFFER02'));
+        // The store's own ID is namespaced, so equal IDs on two stores do not collide
+        expect(productIdentity('https://www.amazon.in/dp/B0TEST1234')).toBe('amazon:B0TEST1234');
+        expect(getProductId('https://shop.example.com/p/1')).not.toBe(getProductId('https://shop.example.com/p/2'));
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { GeminiProductData } from '../src/services/gemini.js';
+import { flagSuspectPrices, reconcileProduct } from '../src/services/reconcile.js';
+import type { PriceData } from '../src/types/index.js';
+import { scraped } from './helpers.js';
+
+function gemini(overrides: Partial<GeminiProductData> = {}): GeminiProductData {
+    return {
+        title: 'Acme Phone 12',
+        brand: 'Acme',
+        price: { current: 20500, original: 25000, currency: 'INR' },
+        images: [],
+        specifications: {},
+        ratings: { average: 4.1, count: 1000 },
+        highlights: [],
+        ...overrides
+    };
+}
+
+function price(store: string, amount: number, url: string): PriceData {
+    return {
+        store,
+        price: amount,
+        currency: 'INR',
+        url,
+        availability: 'in-stock',
+        offers: [],
+        effectivePrice: amount,
+        appliedOffers: [],
+        isBestPrice: false
+    };
+}
+
+describe('reconcileProduct', () => {
+    it('stays quiet while the values agree within tolerance', () => {
+        expect(reconcileProduct(scraped(), gemini())).toEqual([]);
+        expect(reconcileProduct(null, gemini())).toEqual([]);
+    });
+
+    it('warns about every field that disagrees', () => {
+        const warnings = reconcileProduct(scraped(), gemini({
+            price: { current: 15000, original: 25000, currency: 'INR' },
+            ratings: { average: 3.6, count: 300 }
+        }));
+
+        expect(warnings.map(w => w.field)).toEqual(['price', 'rating', 'reviewCount']);
+        expect(warnings[0]).toMatchObject({ scraped: 20000, gemini: 15000 });
+    });
+
+    it('skips fields one side does not have', () => {
+        const warnings = reconcileProduct(
+            scraped({ price: { current: 20000, currency: 'INR' } }),
+            gemini({ price: { current: 0, original: 40000, currency: 'INR' }, ratings: { average: 0, count: 0 } })
+        );
+
+        expect(warnings).toEqual([]);
+    });
+});
+
+describe('flagSuspectPrices', () => {
+    it('flags prices far from the median and links to the wrong store', () => {
+        const prices = [
+            price('Amazon', 20000, 'https://www.amazon.in/dp/B0TEST1234'),
+            price('Flipkart', 19500, 'https://www.flipkart.com/acme-phone-12/p/itm1'),
+            price('Croma', 20500, 'https://www.amazon.in/dp/B0TEST1234'),
+            price('Tata CLiQ', 4999, 'https://www.tatacliq.com/acme-phone-12/p-1')
+        ];
+
+        const warnings = flagSuspectPrices(prices, null, new Set());
+
+        expect(warnings.map(w => w.store)).toEqual(['Croma', 'Tata CLiQ']);
+        expect(prices[2]).toMatchObject({ suspect: true, suspectReason: 'URL does not point to Croma' });
+        expect(prices[3].suspectReason).toMatch(/far from the typical price/);
+        expect(prices[0].suspect).toBeUndefined();
+    });
+
+    it('compares against the scraped price when there are too few stores for a median', () => {
+        const prices = [price('Flipkart', 9000, 'https://www.flipkart.com/acme-phone-12/p/itm1')];
+
+        expect(flagSuspectPrices(prices, 20000, new Set())).toHaveLength(1);
+        expect(flagSuspectPrices([price('Flipkart', 9000, 'https://www.flipkart.com/acme-phone-12/p/itm1')], null, new Set())).toEqual([]);
+    });
+
+    it('never flags trusted rows or unparsable links it was told to trust', () => {
+        const source = price('Amazon', 9000, 'not a url');
+        const prices = [source, price('Flipkart', 19500, 'javascript:alert(1)')];
+
+        const warnings = flagSuspectPrices(prices, null, new Set([source]));
+
+        expect(warnings.map(w => w.store)).toEqual(['Flipkart']);
+        expect(prices[1].suspectReason).toBe('store URL could not be parsed');
+        expect(source.suspect).toBeUndefined();
+    });
+});
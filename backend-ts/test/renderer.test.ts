@@ -0,0 +1,83 @@
+import { existsSync } from 'fs';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Read when the renderer module loads
+vi.hoisted(() => {
+    process.env.SCRAPER_RENDER_TIMEOUT_MS = '2000';
+});
+
+import { closeRenderer, renderPage } from '../src/services/renderer.js';
+
+/**
+ * playwright-core is an optional dependency and needs a Chromium binary besides
+ */
+async function hasBrowser(): Promise<boolean> {
+    try {
+        const { chromium } = await import('playwright-core');
+        return existsSync(process.env.SCRAPER_BROWSER_PATH || chromium.executablePath());
+    } catch {
+        return false;
+    }
+}
+
+// The price only exists once the page's script has fetched it, like on most storefronts
+const PRODUCT_PAGE = `<!DOCTYPE html>
+<html><body>
+<h1 id="title">Acme Phone 12</h1>
+<span id="price">Loading...</span>
+<script>
+    fetch('/api/price')
+        .then(res => res.json())
+        .then(data => { document.getElementById('price').textContent = data.price; });
+</script>
+</body></html>`;
+
+const server = createServer((req, res) => {
+    if (req.url === '/product') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PRODUCT_PAGE);
+    } else if (req.url === '/api/price') {
+        setTimeout(() => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ price: '₹18,999' }));
+        }, 200);
+    } else if (req.url === '/hang') {
+        // Headers never arrive, so the page never loads
+    } else {
+        res.writeHead(404);
+        res.end();
+    }
+});
+let baseUrl = '';
+
+describe.skipIf(!(await hasBrowser()))('renderPage', () => {
+    beforeAll(async () => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await closeRenderer();
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('returns the HTML after the page script has run', async () => {
+        const html = await renderPage(`${baseUrl}/product`);
+
+        expect(PRODUCT_PAGE).not.toContain('₹18,999');
+        expect(html).toContain('<span id="price">₹18,999</span>');
+    }, 15000);
+
+    it('gives up on a page that never loads', async () => {
+        const started = Date.now();
+
+        await expect(renderPage(`${baseUrl}/hang`)).rejects.toThrow(/timeout/i);
+        expect(Date.now() - started).toBeLessThan(5000);
+
+        // The page slot was released, so the next render still works
+        expect(await renderPage(`${baseUrl}/product`)).toContain('₹18,999');
+    }, 15000);
+});
@@ -0,0 +1,71 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Read when the renderer module loads, so it has to be set before the app is imported
+vi.hoisted(() => {
+    process.env.SCRAPER_RENDER = 'true';
+});
+
+import { app } from '../src/app.js';
+import { setLlmProvider } from '../src/services/llm/index.js';
+import type { AnalyzeResponse } from '../src/types/index.js';
+
+// One recorded run: the static page was a robot check, so the product came from the
+// headless render, and the analysis from a search-grounded model reply
+const RECORDED_URL = 'https://www.amazon.in/Acme-Phone-12-Midnight-128GB/dp/B0REPLAY01';
+
+const fetchMock = vi.fn<typeof fetch>(async () => {
+    throw new Error('Network access in replay mode');
+});
+
+beforeAll(() => {
+    process.env.FIXTURE_MODE = 'replay';
+    process.env.FIXTURES_DIR = new URL('./fixtures/recorded', import.meta.url).pathname;
+    // Replay must never build the real provider, which would fail without an API key
+    process.env.LLM_PROVIDER = 'gemini';
+    delete process.env.GEMINI_API_KEY;
+    setLlmProvider(null);
+    vi.stubGlobal('fetch', fetchMock);
+});
+
+afterAll(() => {
+    process.env.FIXTURE_MODE = 'off';
+    process.env.LLM_PROVIDER = 'fake';
+    delete process.env.FIXTURES_DIR;
+    delete process.env.SCRAPER_RENDER;
+    setLlmProvider(null);
+    vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+    fetchMock.mockClear();
+});
+
+describe('POST /api/analyze in replay mode', () => {
+    it('runs the whole pipeline from recorded fixtures without the network', async () => {
+        const res = await request(app).post('/api/analyze').send({ url: RECORDED_URL, refresh: true }).expect(200);
+        const { product, prices, aiAnalysis, category } = res.body as AnalyzeResponse;
+
+        // Title, price and offers come from the rendered page, not the model
+        expect(product.title).toBe('Acme Phone 12 5G Smartphone (Midnight, 128GB)');
+        expect(product.price).toEqual({ current: 18999, original: 24999, currency: 'INR' });
+        expect(product.provenance).toMatchObject({ title: 'scraper', price: 'scraper' });
+        expect(prices.map(p => [p.store, p.price])).toEqual([['Amazon', 18999], ['Flipkart', 18499], ['Croma', 19490]]);
+        expect(prices[0].offers.map(o => o.bank)).toEqual(['HDFC Bank', 'ICICI Bank']);
+        expect(prices.find(p => p.isBestPrice)?.store).toBe('Flipkart');
+
+        expect(category).toBe('smartphone');
+        expect(aiAnalysis.verdict).toMatchObject({ verdict: 'BUY', score: 7.8 });
+        expect(aiAnalysis.sources.map(s => s.uri)).toHaveLength(2);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('fails instead of going online when nothing was recorded for the URL', async () => {
+        const res = await request(app).post('/api/analyze')
+            .send({ url: 'https://www.amazon.in/dp/B0NOTRECRD', refresh: true })
+            .expect(500);
+
+        expect(res.body.message).toBe('Failed to analyze product. Please try again later.');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
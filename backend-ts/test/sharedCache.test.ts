@@ -0,0 +1,62 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { PRODUCT_URL, geminiReply, scraped } from './helpers.js';
+
+// Every client talks to the same in-process Redis stand-in
+vi.mock('ioredis', async () => {
+    const { default: RedisMock } = await import('ioredis-mock');
+    return { Redis: RedisMock, default: RedisMock };
+});
+vi.mock('../src/services/scraper.js', () => ({ scrapeProduct: vi.fn() }));
+
+/**
+ * Load a fresh copy of the app, as a separate instance would
+ */
+async function startInstance(): Promise<Express> {
+    vi.resetModules();
+    const { scrapeProduct } = await import('../src/services/scraper.js');
+    vi.mocked(scrapeProduct).mockResolvedValue(scraped());
+
+    const { createFakeProvider, setLlmProvider } = await import('../src/services/llm/index.js');
+    setLlmProvider(createFakeProvider({ respond: () => geminiReply({}) }));
+
+    const { app } = await import('../src/app.js');
+    return app;
+}
+
+beforeAll(() => {
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379');
+});
+
+afterAll(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('with a Redis cache', () => {
+    it('serves prices analyzed by another instance', async () => {
+        const first = await startInstance();
+        const analyzed = await request(first).post('/api/analyze').send({ url: PRODUCT_URL }).expect(200);
+
+        const second = await startInstance();
+        const res = await request(second).get(`/api/prices/${analyzed.body.product.id}`).expect(200);
+
+        expect(res.body.prices).toEqual(analyzed.body.prices);
+    });
+
+    it('continues a conversation started on another instance', async () => {
+        const productData = { title: 'Acme Phone 12', price: { current: 20000, currency: 'INR' } };
+
+        const first = await startInstance();
+        const started = await request(first).post('/api/ask-ai')
+            .send({ productData, question: 'Is it good?' })
+            .expect(200);
+
+        const second = await startInstance();
+        const continued = await request(second).post('/api/ask-ai')
+            .send({ productData, question: 'And the battery?', conversationId: started.body.conversationId })
+            .expect(200);
+
+        expect(continued.body.conversationId).toBe(started.body.conversationId);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSpecifications, parseQuantity } from '../src/services/specNormalizer.js';
+
+describe('parseQuantity', () => {
+    it.each([
+        ['5,000 mAh', 'mAh', 5000],
+        ['1 TB', 'GB', 1024],
+        ['8GB RAM', 'GB', 8],
+        ['16.94 cm (6.67 inch)', 'inch', 6.669],
+        ['6.7"', 'inch', 6.7],
+        ['67W SuperVOOC', 'W', 67],
+        ['1.5 kW', 'W', 1500],
+        ['190 g', 'kg', 0.19],
+        ['5G model, 195g', 'kg', 0.195],
+        ['1.2 Kilograms', 'kg', 1.2],
+        ['120 Hz', 'Hz', 120],
+        ['50MP + 8MP + 2MP', 'MP', 50],
+        ['Up to 7 days', 'hours', 168],
+        ['1 Year Manufacturer Warranty', 'months', 12],
+        ['5000', 'mAh', 5000]
+    ] as const)('reads %s as %s', (value, unit, expected) => {
+        expect(parseQuantity(value, unit)).toBe(expected);
+    });
+
+    it('returns null when the value has no number in that unit', () => {
+        expect(parseQuantity('Long lasting', 'mAh')).toBeNull();
+        expect(parseQuantity('8 GB', 'mAh')).toBeNull();
+        expect(parseQuantity('5G', 'kg')).toBeNull();
+    });
+});
+
+describe('normalizeSpecifications', () => {
+    it('maps store-specific names onto canonical keys with parsed values', () => {
+        const specs = normalizeSpecifications({
+            'Network Type': '5G',
+            'Battery Capacity': '5000 mAh',
+            'Memory (RAM)': '8 GB',
+            'Item Weight': '190 g'
+        }, 'smartphone');
+
+        expect(specs).toEqual({
+            ram: { label: 'RAM', rawKey: 'Memory (RAM)', value: '8 GB', quantity: { value: 8, unit: 'GB' }, better: 'higher' },
+            battery: { label: 'Battery', rawKey: 'Battery Capacity', value: '5000 mAh', quantity: { value: 5000, unit: 'mAh' }, better: 'higher' },
+            weight: { label: 'Weight', rawKey: 'Item Weight', value: '190 g', quantity: { value: 0.19, unit: 'kg' }, better: 'lower' },
+            // Unknown specs are kept, after the known ones
+            networkType: { label: 'Network Type', rawKey: 'Network Type', value: '5G' }
+        });
+    });
+
+    it('reads the same name by category', () => {
+        expect(normalizeSpecifications({ Battery: '5000 mAh' }, 'smartphone').battery.quantity)
+            .toEqual({ value: 5000, unit: 'mAh' });
+        expect(normalizeSpecifications({ Battery: '30 hours' }, 'audio').batteryLife.quantity)
+            .toEqual({ value: 30, unit: 'hours' });
+    });
+
+    it('still recognises specs when the category is unknown', () => {
+        const specs = normalizeSpecifications({ 'Screen Size': '6.7 inches', RAM: '12 GB' }, 'general');
+
+        expect(Object.keys(specs)).toEqual(['ram', 'displaySize']);
+    });
+
+    it('keeps the first of two names for the same spec and skips empty values', () => {
+        const specs = normalizeSpecifications({ RAM: '8 GB', Memory: '8 GB LPDDR5', Colour: ' ' }, 'laptop');
+
+        expect(specs).toEqual({
+            ram: expect.objectContaining({ rawKey: 'RAM', value: '8 GB' })
+        });
+    });
+});
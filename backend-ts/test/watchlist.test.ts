@@ -0,0 +1,193 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { app } from '../src/app.js';
+import type { NotifierRegistry } from '../src/services/notifiers.js';
+import { getProductId } from '../src/services/productIdentity.js';
+import { createMemoryWatchlistStore, watchlistStore } from '../src/services/watchlist.js';
+import type { WatchlistStore } from '../src/services/watchlist.js';
+import { createWatchlistScheduler } from '../src/services/watchlistScheduler.js';
+import type { Clock, PriceAnalyzer, WatchlistScheduler } from '../src/services/watchlistScheduler.js';
+import type { PriceData, ProductData, WatchlistItem } from '../src/types/index.js';
+import { PRODUCT_URL } from './helpers.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A clock that only moves when told to, firing due intervals on the way
+ */
+function createFakeClock(start = Date.parse('2026-03-01T09:00:00Z')) {
+    let now = start;
+    let nextId = 1;
+    const timers = new Map<number, { callback: () => void; ms: number; due: number }>();
+
+    const clock: Clock & { advance(ms: number): void } = {
+        now: () => now,
+        setInterval(callback, ms) {
+            timers.set(nextId, { callback, ms, due: now + ms });
+            return nextId++;
+        },
+        clearInterval(handle) {
+            timers.delete(handle as number);
+        },
+        advance(ms) {
+            const end = now + ms;
+            for (;;) {
+                const next = [...timers.values()].filter(t => t.due <= end).sort((a, b) => a.due - b.due)[0];
+                if (!next) break;
+                now = next.due;
+                next.due += next.ms;
+                next.callback();
+            }
+            now = end;
+        }
+    };
+    return clock;
+}
+
+function price(store: string, amount: number, extra: Partial<PriceData> = {}): PriceData {
+    return {
+        store,
+        price: amount,
+        currency: 'INR',
+        url: `https://www.${store.toLowerCase()}.com/acme-phone-12`,
+        availability: 'in-stock',
+        offers: [],
+        effectivePrice: amount,
+        appliedOffers: [],
+        isBestPrice: false,
+        ...extra
+    };
+}
+
+const watch: WatchlistItem = {
+    id: 'watch-1',
+    productId: getProductId(PRODUCT_URL),
+    url: PRODUCT_URL,
+    targetPrice: 19000,
+    channel: { type: 'webhook', url: 'https://hooks.example.com/buysense' },
+    createdAt: '2026-03-01T08:00:00.000Z'
+};
+
+describe('watchlist scheduler', () => {
+    let clock: ReturnType<typeof createFakeClock>;
+    let store: WatchlistStore;
+    let prices: PriceData[];
+    let analyze: ReturnType<typeof vi.fn<PriceAnalyzer>>;
+    let notify: ReturnType<typeof vi.fn<NotifierRegistry['webhook']['notify']>>;
+    let scheduler: WatchlistScheduler;
+
+    // Advance past one interval and wait for the run it started; checkAll joins a running check
+    async function tick(): Promise<void> {
+        clock.advance(HOUR_MS);
+        await scheduler.checkAll();
+    }
+
+    beforeEach(() => {
+        clock = createFakeClock();
+        store = createMemoryWatchlistStore([watch]);
+        prices = [price('Amazon', 20000), price('Flipkart', 19500)];
+        analyze = vi.fn<PriceAnalyzer>(async () => ({ product: { title: 'Acme Phone 12' } as ProductData, prices }));
+        notify = vi.fn<NotifierRegistry['webhook']['notify']>(async () => {});
+        scheduler = createWatchlistScheduler({ store, analyze, notifiers: { webhook: { notify } }, intervalMs: HOUR_MS, clock });
+        scheduler.start();
+    });
+
+    it('checks every watch once per interval and remembers the lowest price', async () => {
+        clock.advance(HOUR_MS - 1);
+        expect(analyze).not.toHaveBeenCalled();
+
+        clock.advance(1);
+        await scheduler.checkAll();
+
+        expect(analyze).toHaveBeenCalledWith(PRODUCT_URL);
+        expect(notify).not.toHaveBeenCalled();
+        expect(await store.get(watch.id)).toMatchObject({ lastPrice: 19500, lastCheckedAt: '2026-03-01T10:00:00.000Z' });
+    });
+
+    it('alerts once when the price drops to the target, and again only after it went back above', async () => {
+        await tick();
+        prices = [price('Amazon', 20000), price('Flipkart', 18999)];
+        await tick();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+        expect(notify.mock.calls[0][0]).toMatchObject({ watchId: watch.id, store: 'Flipkart', price: 18999, listPrice: 18999, targetPrice: 19000 });
+        expect(notify.mock.calls[0][1]).toEqual(watch.channel);
+
+        // Still below the target: no repeat alert
+        await tick();
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        prices = [price('Flipkart', 19200)];
+        await tick();
+        prices = [price('Flipkart', 18500)];
+        await tick();
+        expect(notify).toHaveBeenCalledTimes(2);
+    });
+
+    it('never alerts on a price flagged as suspect', async () => {
+        prices = [price('Amazon', 20000), price('Flipkart', 9999, { suspect: true, suspectReason: 'Far below the other stores' })];
+
+        await tick();
+
+        expect(notify).not.toHaveBeenCalled();
+        expect((await store.get(watch.id))?.lastPrice).toBe(20000);
+    });
+
+    it('counts the offers on the cards the watch was saved with', async () => {
+        const sbiOffer = { type: 'bank', bank: 'SBI', discount: 1000, discountType: 'flat', description: '₹1,000 off on SBI cards' } as const;
+        prices = [price('Amazon', 19800, { offers: [sbiOffer] })];
+        await store.save({ ...watch, cards: ['SBI'] });
+
+        await tick();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+        expect(notify.mock.calls[0][0]).toMatchObject({ store: 'Amazon', price: 18800, listPrice: 19800 });
+    });
+
+    it('retries a failed delivery on the next run', async () => {
+        prices = [price('Flipkart', 18000)];
+        notify.mockRejectedValueOnce(new Error('Webhook responded with 502 Bad Gateway'));
+
+        await tick();
+        expect((await store.get(watch.id))?.lastNotifiedAt).toBeUndefined();
+
+        await tick();
+        expect(notify).toHaveBeenCalledTimes(2);
+        expect((await store.get(watch.id))?.lastNotifiedAt).toBe('2026-03-01T11:00:00.000Z');
+    });
+
+    it('stops checking once stopped', async () => {
+        scheduler.stop();
+
+        clock.advance(3 * HOUR_MS);
+
+        expect(analyze).not.toHaveBeenCalled();
+    });
+});
+
+describe('POST /api/watchlist', () => {
+    const send = (body: Record<string, unknown>) => request(app).post('/api/watchlist').send({
+        url: PRODUCT_URL,
+        targetPrice: 19000,
+        ...body
+    });
+
+    it('rejects webhooks the server must not call', async () => {
+        await send({ channel: { type: 'webhook', url: 'http://hooks.example.com/buysense' } })
+            .expect(400, { message: 'Webhook URL must use https' });
+        await send({ channel: { type: 'webhook', url: 'https://169.254.169.254/latest/meta-data' } })
+            .expect(400, { message: 'Webhook URL must point at a public host' });
+        await send({ channel: { type: 'webhook', url: 'https://localhost:3005/api/health' } })
+            .expect(400, { message: 'Webhook URL must point at a public host' });
+    });
+
+    it('derives the product ID from the URL, whatever the client sends', async () => {
+        const res = await send({
+            productId: 'someone-elses-product',
+            channel: { type: 'webhook', url: 'https://203.0.113.10/buysense' }
+        }).expect(201);
+
+        expect(res.body.productId).toBe(getProductId(PRODUCT_URL));
+        await watchlistStore.remove(res.body.id);
+    });
+});
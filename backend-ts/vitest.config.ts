@@ -0,0 +1,18 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Keep test runs away from the real data/ files and any configured LLM
+const dataDir = path.join(os.tmpdir(), `buysense-test-${process.pid}`);
+
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        env: {
+            PRICE_HISTORY_FILE: path.join(dataDir, 'price-history.jsonl'),
+            WATCHLIST_FILE: path.join(dataDir, 'watchlist.json'),
+            LLM_PROVIDER: 'fake',
+            FIXTURE_MODE: 'off'
+        }
+    }
+});
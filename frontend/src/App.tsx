@@ -1,45 +1,149 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import {
   Header,
   URLInput,
   SupportedPlatforms,
   LoadingState,
   ProductHero,
+  DataWarnings,
   PriceComparison,
+  PriceHistoryChart,
   AIRecommendation,
   AskAI,
-  FeedbackRating
+  FeedbackRating,
+  CompareInput,
+  ComparisonView
 } from './components'
 import './App.css'
 import { Beams } from './components/Beams'
 import { api } from './services/api'
-import type { AnalysisResult } from './types'
+import { loadCards } from './lib/offers'
+import { getLowestInDays } from './lib/priceHistory'
+import type { AnalysisResult, ComparisonResult, PriceHistory, Product } from './types'
+
+// Placeholder result shown while the rest of a streamed analysis is still arriving
+function partialResult(product: Product): AnalysisResult {
+  return {
+    product,
+    priceComparison: { productId: product.id, stores: [], lastUpdated: new Date() },
+    aiAnalysis: { content: '', sources: [], verdict: null, timestamp: new Date().toISOString() },
+    warnings: [],
+    category: 'general',
+    suggestedQuestions: [],
+    processingTime: 0
+  }
+}
 
 function App() {
   const [isLoading, setIsLoading] = useState(false)
+  const [loadingStep, setLoadingStep] = useState<string | null>(null)
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
+  const [priceHistory, setPriceHistory] = useState<PriceHistory | null>(null)
+  const [mode, setMode] = useState<'single' | 'compare'>('single')
+  const [comparisonResult, setComparisonResult] = useState<ComparisonResult | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const stopStreamRef = useRef<(() => void) | null>(null)
 
-  const handleAnalyze = async (url: string) => {
+  // Stop listening to an in-flight analysis when the app unmounts
+  useEffect(() => () => stopStreamRef.current?.(), [])
+
+  const handleAnalyze = (url: string) => {
+    stopStreamRef.current?.()
     setIsLoading(true)
+    setLoadingStep(null)
     setError(null)
+    setAnalysisResult(null)
+    setPriceHistory(null)
+
+    stopStreamRef.current = api.analyzeProductStream(url, {
+      onStep: setLoadingStep,
+      onProduct: (product) => {
+        setAnalysisResult(prev => prev ? { ...prev, product } : partialResult(product))
+      },
+      onPrices: (priceComparison, warnings) => {
+        setAnalysisResult(prev => prev && { ...prev, priceComparison, warnings })
+      },
+      onAnalysis: (delta) => {
+        setAnalysisResult(prev => prev && {
+          ...prev,
+          aiAnalysis: { ...prev.aiAnalysis, content: prev.aiAnalysis.content + delta }
+        })
+      },
+      onResult: (result) => {
+        stopStreamRef.current = null
+        setAnalysisResult(result)
+        setIsLoading(false)
+
+        // Price history is a nice-to-have; never fail the analysis because of it
+        api.getPriceHistory(result.product.id)
+          .then(setPriceHistory)
+          .catch(err => console.warn('Price history unavailable:', err))
+      },
+      onError: (err) => {
+        stopStreamRef.current = null
+        setAnalysisResult(null)
+        setError('Failed to analyze product. Please try again.')
+        setIsLoading(false)
+        console.error(err)
+      }
+    })
+  }
+
+  const handleCompare = async (urls: string[]) => {
+    setIsLoading(true)
+    setLoadingStep(`Analyzing and comparing ${urls.length} products...`)
+    setError(null)
+    setComparisonResult(null)
 
     try {
-      const result = await api.analyzeProduct(url)
-      setAnalysisResult(result)
+      setComparisonResult(await api.compareProducts(urls, loadCards()))
     } catch (err) {
-      setError('Failed to analyze product. Please try again.')
+      setError(err instanceof Error ? err.message : 'Failed to compare products. Please try again.')
       console.error(err)
     } finally {
       setIsLoading(false)
     }
   }
 
+  const handleRefreshPrices = async () => {
+    if (!analysisResult) return
+    const productId = analysisResult.product.id
+    const { priceComparison, warnings } = await api.refreshPrices(productId)
+
+    // Store price warnings belong to the old prices; everything else still applies
+    setAnalysisResult(prev => prev && prev.product.id === productId ? {
+      ...prev,
+      priceComparison,
+      warnings: [...prev.warnings.filter(w => w.field !== 'storePrice'), ...warnings]
+    } : prev)
+
+    api.getPriceHistory(productId)
+      .then(setPriceHistory)
+      .catch(err => console.warn('Price history unavailable:', err))
+  }
+
   const handleBackToSearch = () => {
+    stopStreamRef.current?.()
+    stopStreamRef.current = null
+    setIsLoading(false)
     setAnalysisResult(null)
+    setComparisonResult(null)
+    setPriceHistory(null)
     setError(null)
   }
 
+  const backButton = (
+    <button
+      onClick={handleBackToSearch}
+      className="flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+    >
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+      </svg>
+      Back to search
+    </button>
+  )
+
   return (
     <div className="relative min-h-screen w-full overflow-hidden">
       {/* Background Effect */}
@@ -60,8 +164,10 @@ function App() {
       <div className="relative z-10 flex flex-col min-h-screen">
         <Header />
 
-        {/* Loading Overlay */}
-        {isLoading && <LoadingState message="Scraping product data and analyzing..." />}
+        {/* Loading Overlay until the first partial result arrives */}
+        {isLoading && !analysisResult && (
+          <LoadingState message={loadingStep ?? 'Scraping product data and analyzing...'} />
+        )}
 
         {/* Main Content */}
         <main className="flex-grow max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -70,35 +176,52 @@ function App() {
           {analysisResult ? (
             <div>
               {/* Back Button */}
-              <button
-                onClick={handleBackToSearch}
-                className="flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                </svg>
-                Back to search
-              </button>
+              {backButton}
+
+              {/* Progress while the rest of the analysis streams in */}
+              {isLoading && (
+                <LoadingState variant="inline" message={loadingStep ?? 'Analyzing...'} />
+              )}
 
               {/* Product Hero - Full Width */}
-              <ProductHero product={analysisResult.product} />
+              <ProductHero
+                product={analysisResult.product}
+                lowestInDays={priceHistory && getLowestInDays(
+                  priceHistory,
+                  analysisResult.product.price.current,
+                  analysisResult.product.source.marketplace
+                )}
+              />
+
+              {/* Cross-source validation warnings */}
+              <DataWarnings warnings={analysisResult.warnings} />
 
               {/* Two Column Layout for Price & AI Analysis */}
               <div className="grid lg:grid-cols-2 gap-6 mt-6">
                 <div>
                   {/* Price Comparison */}
-                  <PriceComparison data={analysisResult.priceComparison} />
+                  <PriceComparison
+                    data={analysisResult.priceComparison}
+                    isLoading={isLoading}
+                    onRefresh={handleRefreshPrices}
+                  />
+
+                  {/* Price History */}
+                  {priceHistory && <PriceHistoryChart history={priceHistory} />}
                 </div>
                 <div>
                   {/* AI Recommendation */}
-                  <AIRecommendation analysis={analysisResult.aiAnalysis} />
+                  <AIRecommendation analysis={analysisResult.aiAnalysis} isStreaming={isLoading} />
                 </div>
               </div>
 
               {/* Ask AI Chatbot */}
               <div className="mt-6">
+                {/* Keyed by product so a new analysis starts a fresh conversation */}
                 <AskAI
+                  key={analysisResult.product.id}
                   productId={analysisResult.product.id}
+                  suggestedQuestions={analysisResult.suggestedQuestions}
                   productData={{
                     title: analysisResult.product.title,
                     price: analysisResult.product.price,
@@ -115,8 +238,21 @@ function App() {
               }} />
 
               {/* Processing Time */}
+              {!isLoading && (
+                <p className="text-center text-gray-500 text-sm mt-6">
+                  Analysis completed in {analysisResult.processingTime}s
+                </p>
+              )}
+            </div>
+          ) : comparisonResult ? (
+            /* Comparison View */
+            <div>
+              {backButton}
+
+              <ComparisonView result={comparisonResult} />
+
               <p className="text-center text-gray-500 text-sm mt-6">
-                Analysis completed in {analysisResult.processingTime}s
+                Comparison completed in {comparisonResult.processingTime.toFixed(1)}s
               </p>
             </div>
           ) : (
@@ -132,11 +268,32 @@ function App() {
                 </p>
               </div>
 
+              {/* Single product or side-by-side comparison */}
+              <div className="inline-flex mb-6 p-1 bg-white/5 border border-white/10 rounded-xl">
+                {(['single', 'compare'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    disabled={isLoading}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${mode === option ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {option === 'single' ? 'Analyze a product' : 'Compare products'}
+                  </button>
+                ))}
+              </div>
+
               {/* URL Input Form */}
-              <URLInput
-                onSubmit={handleAnalyze}
-                isLoading={isLoading}
-              />
+              {mode === 'single' ? (
+                <URLInput
+                  onSubmit={handleAnalyze}
+                  isLoading={isLoading}
+                />
+              ) : (
+                <CompareInput
+                  onSubmit={handleCompare}
+                  isLoading={isLoading}
+                />
+              )}
 
               {/* Error Message */}
               {error && (
@@ -1,12 +1,85 @@
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { AIAnalysis } from '../types';
+import type { AIAnalysis, AIVerdict, PriceRating, VerdictDecision } from '../types';
 
 interface AIRecommendationProps {
     analysis: AIAnalysis;
+    // True while the analysis text is still being generated
+    isStreaming?: boolean;
 }
 
-export default function AIRecommendation({ analysis }: AIRecommendationProps) {
+const VERDICT_STYLES: Record<VerdictDecision, { label: string; className: string }> = {
+    BUY: { label: 'Buy', className: 'bg-green-500/20 border-green-500/40 text-green-400' },
+    CONSIDER: { label: 'Consider', className: 'bg-yellow-500/20 border-yellow-500/40 text-yellow-400' },
+    SKIP: { label: 'Skip', className: 'bg-red-500/20 border-red-500/40 text-red-400' },
+};
+
+const PRICE_LABELS: Record<PriceRating, { label: string; className: string }> = {
+    'good-deal': { label: 'Good deal', className: 'text-green-400' },
+    fair: { label: 'Fair price', className: 'text-gray-300' },
+    overpriced: { label: 'Overpriced', className: 'text-red-400' },
+};
+
+function scoreColor(score: number): string {
+    if (score >= 7.5) return '#4ade80';
+    if (score >= 5) return '#facc15';
+    return '#f87171';
+}
+
+/**
+ * Ring that fills in proportion to the 0–10 score
+ */
+function ScoreGauge({ score }: { score: number }) {
+    const radius = 26;
+    const circumference = 2 * Math.PI * radius;
+    const filled = (Math.min(Math.max(score, 0), 10) / 10) * circumference;
+
+    return (
+        <div className="relative w-16 h-16 flex-shrink-0" title={`BuySense Score: ${score}/10`}>
+            <svg viewBox="0 0 64 64" className="w-16 h-16 -rotate-90">
+                <circle cx="32" cy="32" r={radius} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth={6} />
+                <circle
+                    cx="32"
+                    cy="32"
+                    r={radius}
+                    fill="none"
+                    stroke={scoreColor(score)}
+                    strokeWidth={6}
+                    strokeLinecap="round"
+                    strokeDasharray={`${filled} ${circumference}`}
+                />
+            </svg>
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+                <span className="text-lg font-bold text-white leading-none">{score}</span>
+                <span className="text-[10px] text-gray-400">/10</span>
+            </div>
+        </div>
+    );
+}
+
+function VerdictSummary({ verdict }: { verdict: AIVerdict }) {
+    const style = VERDICT_STYLES[verdict.verdict];
+    const price = verdict.priceAssessment && PRICE_LABELS[verdict.priceAssessment.rating];
+
+    return (
+        <div className="flex items-center gap-4 mb-6 p-4 bg-white/5 rounded-xl border border-white/10">
+            <ScoreGauge score={verdict.score} />
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-3 py-0.5 rounded-full border text-sm font-bold uppercase tracking-wide ${style.className}`}>
+                        {style.label}
+                    </span>
+                    {price && <span className={`text-xs font-medium ${price.className}`}>{price.label}</span>}
+                </div>
+                {verdict.priceAssessment?.summary && (
+                    <p className="text-sm text-gray-400">{verdict.priceAssessment.summary}</p>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function AIRecommendation({ analysis, isStreaming = false }: AIRecommendationProps) {
     return (
         <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 h-full">
             {/* Header */}
@@ -19,9 +92,17 @@ export default function AIRecommendation({ analysis }: AIRecommendationProps) {
                 <h3 className="text-xl font-bold text-white">AI Analysis</h3>
             </div>
 
+            {/* Verdict & Score */}
+            {analysis.verdict && <VerdictSummary verdict={analysis.verdict} />}
+
             {/* Markdown Content */}
             <div className="prose-dark max-w-none mb-6 text-sm">
                 <ReactMarkdown remarkPlugins={[remarkGfm]}>{analysis.content}</ReactMarkdown>
+                {isStreaming && (
+                    <p className="text-gray-400 animate-pulse">
+                        {analysis.content ? 'Writing...' : 'Waiting for the AI analysis...'}
+                    </p>
+                )}
             </div>
 
             {/* Sources */}
@@ -53,12 +134,14 @@ export default function AIRecommendation({ analysis }: AIRecommendationProps) {
             )}
 
             {/* Timestamp */}
-            <div className="mt-4 pt-4 border-t border-white/10 flex items-center gap-2 text-xs text-gray-500">
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                Generated: {new Date(analysis.timestamp).toLocaleString()}
-            </div>
+            {!isStreaming && (
+                <div className="mt-4 pt-4 border-t border-white/10 flex items-center gap-2 text-xs text-gray-500">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Generated: {new Date(analysis.timestamp).toLocaleString()}
+                </div>
+            )}
         </div>
     );
 }
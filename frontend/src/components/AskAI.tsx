@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { api } from '../services/api';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import type { AIAnalysis } from '../types';
 interface AskAIProps {
     productId: string;
     productData?: {
@@ -11,35 +12,96 @@ interface AskAIProps {
         ratings?: { average: number; count: number };
         highlights?: string[];
     };
+    // Generated per product by /api/analyze
+    suggestedQuestions?: string[];
 }
 
-const suggestedQuestions = [
-    'Is the battery life really that good?',
-    'How comfortable are these for long use?',
-    'Are they worth the price?',
-    'How good is the noise cancellation?',
-];
+interface ChatMessage {
+    id: number;
+    role: 'user' | 'assistant';
+    text: string;
+    confidence?: number;
+    sources?: AIAnalysis['sources'];
+    isError?: boolean;
+    // Still being streamed in
+    isPending?: boolean;
+    // Cancelled before the answer finished
+    isStopped?: boolean;
+}
 
-export default function AskAI({ productId, productData }: AskAIProps) {
+export default function AskAI({ productId, productData, suggestedQuestions = [] }: AskAIProps) {
     const [question, setQuestion] = useState('');
-    const [answer, setAnswer] = useState<string | null>(null);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [conversationId, setConversationId] = useState<string | undefined>(undefined);
     const [isLoading, setIsLoading] = useState(false);
-    const [confidence, setConfidence] = useState<number | null>(null);
+    const threadRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const nextIdRef = useRef(0);
+
+    // Keep the latest message in view as the thread grows
+    useEffect(() => {
+        threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight, behavior: 'smooth' });
+    }, [messages]);
+
+    // Stop generating when the user navigates away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const updateMessage = (id: number, update: (message: ChatMessage) => ChatMessage) => {
+        setMessages(prev => prev.map(m => (m.id === id ? update(m) : m)));
+    };
+
+    const handleStop = () => {
+        abortRef.current?.abort();
+    };
 
     const handleAsk = async (q: string) => {
-        if (!q.trim() || isLoading) return;
+        if (!q.trim()) return;
+
+        // A new question replaces the one still being answered
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
 
+        const answerId = nextIdRef.current + 1;
+        nextIdRef.current += 2;
         setIsLoading(true);
-        setAnswer(null);
+        setQuestion('');
+        setMessages(prev => [
+            ...prev,
+            { id: answerId - 1, role: 'user', text: q },
+            { id: answerId, role: 'assistant', text: '', isPending: true }
+        ]);
 
         try {
-            const response = await api.askAI(productId, q, productData);
-            setAnswer(response.answer);
-            setConfidence(response.confidence);
+            const response = await api.askAIStream(
+                productId,
+                q,
+                productData,
+                conversationId,
+                (delta) => updateMessage(answerId, m => ({ ...m, text: m.text + delta })),
+                controller.signal,
+                setConversationId
+            );
+            updateMessage(answerId, m => ({
+                ...m,
+                text: response.answer,
+                confidence: response.confidence,
+                sources: response.sources,
+                isPending: false
+            }));
         } catch (error) {
-            setAnswer('Sorry, I couldn\'t process your question. Please try again.');
+            if (controller.signal.aborted) {
+                updateMessage(answerId, m => ({ ...m, isPending: false, isStopped: true }));
+            } else {
+                console.error('Ask AI failed:', error);
+                updateMessage(answerId, m => ({ ...m, text: 'Sorry, I couldn\'t process your question. Please try again.', isError: true, isPending: false }));
+            }
         } finally {
-            setIsLoading(false);
+            // Only the latest question owns the loading state
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsLoading(false);
+            }
         }
     };
 
@@ -62,22 +124,20 @@ export default function AskAI({ productId, productData }: AskAIProps) {
                 </div>
             </div>
 
-            {/* Suggested Questions */}
-            <div className="flex flex-wrap gap-2 mb-4">
-                {suggestedQuestions.map((q, i) => (
-                    <button
-                        key={i}
-                        onClick={() => {
-                            setQuestion(q);
-                            handleAsk(q);
-                        }}
-                        disabled={isLoading}
-                        className="px-3 py-1.5 text-sm bg-white/5 border border-white/10 rounded-full text-gray-300 hover:bg-white/10 hover:border-white/20 transition-all disabled:opacity-50"
-                    >
-                        {q}
-                    </button>
-                ))}
-            </div>
+            {/* Suggested Questions, generated for this product's category */}
+            {suggestedQuestions.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {suggestedQuestions.map((q, i) => (
+                        <button
+                            key={i}
+                            onClick={() => handleAsk(q)}
+                            className="px-3 py-1.5 text-sm bg-white/5 border border-white/10 rounded-full text-gray-300 hover:bg-white/10 hover:border-white/20 transition-all disabled:opacity-50"
+                        >
+                            {q}
+                        </button>
+                    ))}
+                </div>
+            )}
 
             {/* Custom Question Input */}
             <form onSubmit={handleSubmit} className="mb-4">
@@ -88,40 +148,86 @@ export default function AskAI({ productId, productData }: AskAIProps) {
                         onChange={(e) => setQuestion(e.target.value)}
                         placeholder="Ask anything about this product..."
                         className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:border-blue-500/50"
-                        disabled={isLoading}
                     />
-                    <button
-                        type="submit"
-                        disabled={!question.trim() || isLoading}
-                        className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed transition-all"
-                    >
-                        {isLoading ? (
-                            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        ) : (
+                    {isLoading && !question.trim() ? (
+                        <button
+                            type="button"
+                            onClick={handleStop}
+                            title="Stop generating"
+                            className="px-6 py-3 bg-white/10 border border-white/20 text-white rounded-xl hover:bg-white/20 transition-all"
+                        >
+                            <div className="w-4 h-4 bg-white rounded-sm" />
+                        </button>
+                    ) : (
+                        <button
+                            type="submit"
+                            disabled={!question.trim()}
+                            className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed transition-all"
+                        >
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                             </svg>
-                        )}
-                    </button>
+                        </button>
+                    )}
                 </div>
             </form>
 
-            {/* Answer */}
-            {answer && (
-                <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-xl">
-                    <div className="flex items-start gap-3">
-                        <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center flex-shrink-0">
-                            <svg className="w-5 h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
-                            </svg>
+            {/* Conversation Thread */}
+            {messages.length > 0 && (
+                <div ref={threadRef} className="max-h-96 overflow-y-auto space-y-3 pr-1">
+                    {messages.map(message => message.role === 'user' ? (
+                        <div key={message.id} className="flex justify-end">
+                            <p className="max-w-[80%] px-4 py-2 bg-white/10 border border-white/10 rounded-xl text-sm text-white">
+                                {message.text}
+                            </p>
                         </div>
-                        <div className="flex-1 prose-dark text-sm">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{answer}</ReactMarkdown>
-                            {confidence && (
-                                <p className="text-xs text-gray-500 mt-2">Confidence: {Math.round(confidence * 100)}%</p>
-                            )}
+                    ) : (
+                        <div
+                            key={message.id}
+                            className={`p-4 rounded-xl border ${message.isError
+                                ? 'bg-red-500/10 border-red-500/20'
+                                : 'bg-blue-500/10 border-blue-500/20'
+                                }`}
+                        >
+                            <div className="flex items-start gap-3">
+                                <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center flex-shrink-0">
+                                    <svg className="w-5 h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                                    </svg>
+                                </div>
+                                <div className="flex-1 prose-dark text-sm">
+                                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.text}</ReactMarkdown>
+                                    {message.isPending && !message.text && (
+                                        <p className="text-gray-400 animate-pulse">Thinking...</p>
+                                    )}
+                                    {message.isStopped && (
+                                        <p className="text-xs text-gray-500 mt-2">Stopped</p>
+                                    )}
+                                    {message.confidence !== undefined && (
+                                        <p className="text-xs text-gray-500 mt-2">Confidence: {Math.round(message.confidence * 100)}%</p>
+                                    )}
+                                    {message.sources && message.sources.length > 0 && (
+                                        <div className="flex flex-wrap gap-2 mt-3">
+                                            {message.sources.map((source, i) => (
+                                                <a
+                                                    key={i}
+                                                    href={source.uri}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 border border-blue-500/20 rounded-lg text-blue-400 text-xs hover:bg-blue-500/20 transition-colors no-underline"
+                                                >
+                                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                                    </svg>
+                                                    {source.title || 'Source'}
+                                                </a>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
                         </div>
-                    </div>
+                    ))}
                 </div>
             )}
         </div>
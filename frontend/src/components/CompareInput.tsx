@@ -0,0 +1,103 @@
+import { useState } from 'react';
+
+interface CompareInputProps {
+    onSubmit: (urls: string[]) => void;
+    isLoading?: boolean;
+}
+
+const MIN_PRODUCTS = 2;
+const MAX_PRODUCTS = 4;
+
+const isValidUrl = (str: string) => {
+    try {
+        new URL(str);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * One field per product link, for comparing 2–4 products side by side
+ */
+export default function CompareInput({ onSubmit, isLoading = false }: CompareInputProps) {
+    const [urls, setUrls] = useState<string[]>(Array(MIN_PRODUCTS).fill(''));
+
+    const filled = urls.map(url => url.trim()).filter(Boolean);
+    const allValid = filled.every(isValidUrl);
+    const canSubmit = !isLoading && filled.length >= MIN_PRODUCTS && allValid;
+
+    const updateUrl = (index: number, value: string) => {
+        setUrls(prev => prev.map((url, i) => (i === index ? value : url)));
+    };
+
+    const removeUrl = (index: number) => {
+        setUrls(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit(filled);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-8 max-w-2xl mx-auto space-y-3">
+            {urls.map((url, i) => {
+                const invalid = url.trim() !== '' && !isValidUrl(url.trim());
+                return (
+                    <div
+                        key={i}
+                        className={`flex items-center bg-white/10 backdrop-blur-md rounded-2xl border shadow-lg transition-all duration-300 ${invalid ? 'border-red-400/50' : 'border-white/20 hover:border-white/40'}`}
+                    >
+                        <span className="pl-5 text-sm font-semibold text-blue-400 w-10">{i + 1}</span>
+                        <input
+                            type="text"
+                            value={url}
+                            onChange={(e) => updateUrl(i, e.target.value)}
+                            placeholder={`Product link ${i + 1}`}
+                            className={`flex-1 px-4 py-3 bg-transparent border-0 rounded-2xl focus:outline-none focus:ring-0 text-white placeholder-gray-400 ${invalid ? 'text-red-400' : ''}`}
+                            disabled={isLoading}
+                        />
+                        {urls.length > MIN_PRODUCTS && (
+                            <button
+                                type="button"
+                                onClick={() => removeUrl(i)}
+                                disabled={isLoading}
+                                className="mr-3 p-2 text-gray-400 hover:text-white transition-colors"
+                                title="Remove this product"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+
+            {!allValid && (
+                <p className="text-red-400 text-sm text-left">Please enter valid URLs</p>
+            )}
+
+            <div className="flex items-center justify-between gap-3 pt-2">
+                <button
+                    type="button"
+                    onClick={() => setUrls(prev => [...prev, ''])}
+                    disabled={isLoading || urls.length >= MAX_PRODUCTS}
+                    className="px-4 py-2 text-sm text-gray-300 border border-white/20 rounded-xl hover:text-white hover:border-white/40 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                    + Add product
+                </button>
+                <button
+                    type="submit"
+                    disabled={!canSubmit}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed transition-all duration-300 flex items-center gap-2 font-medium shadow-lg hover:shadow-blue-500/25"
+                >
+                    {isLoading && <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
+                    Compare
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,113 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ComparisonResult } from '../types';
+
+interface ComparisonViewProps {
+    result: ComparisonResult;
+}
+
+// Tailwind needs the full class names spelled out
+const GRID_COLUMNS: Record<number, string> = {
+    2: 'md:grid-cols-2',
+    3: 'md:grid-cols-3',
+    4: 'md:grid-cols-2 lg:grid-cols-4',
+};
+
+export default function ComparisonView({ result }: ComparisonViewProps) {
+    const { products, specs, verdict } = result;
+
+    return (
+        <div className="space-y-6">
+            {/* Products */}
+            <div className={`grid gap-4 ${GRID_COLUMNS[products.length] ?? 'md:grid-cols-2'}`}>
+                {products.map(({ product, aiAnalysis }, i) => {
+                    const isWinner = verdict.winner === i;
+                    return (
+                        <div
+                            key={product.id}
+                            className={`relative bg-white/5 backdrop-blur-lg rounded-2xl border p-4 flex flex-col ${isWinner ? 'border-green-500/50' : 'border-white/10'}`}
+                        >
+                            {isWinner && (
+                                <span className="absolute -top-3 left-4 px-3 py-0.5 bg-green-500 text-white text-xs font-bold uppercase tracking-wide rounded-full">
+                                    Recommended
+                                </span>
+                            )}
+                            {product.images[0] && (
+                                <img src={product.images[0]} alt={product.title} className="h-32 w-full object-contain mb-3" />
+                            )}
+                            <a
+                                href={product.source.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-white font-semibold text-sm line-clamp-2 hover:text-blue-400 transition-colors"
+                            >
+                                {product.title}
+                            </a>
+                            <p className="text-xs text-gray-500 mt-1">{product.source.marketplace}</p>
+                            {aiAnalysis.verdict && (
+                                <p className="text-xs text-gray-400 mt-2">
+                                    {aiAnalysis.verdict.verdict} · {aiAnalysis.verdict.score}/10
+                                </p>
+                            )}
+                            {verdict.bestFor[i] && (
+                                <p className="text-sm text-blue-300 mt-auto pt-3">Best for: {verdict.bestFor[i]}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Spec Table */}
+            <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6">
+                <h3 className="text-xl font-bold text-white mb-4">Specifications</h3>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead>
+                            <tr className="border-b border-white/10">
+                                <th className="py-2 pr-4 text-gray-400 font-medium">Spec</th>
+                                {products.map(({ product }, i) => (
+                                    <th key={product.id} className="py-2 px-3 text-gray-300 font-medium">
+                                        <span className="line-clamp-1" title={product.title}>{i + 1}. {product.title}</span>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {specs.map(row => (
+                                <tr key={row.key} className="border-b border-white/5 last:border-0">
+                                    <td className="py-2 pr-4 text-gray-400 whitespace-nowrap">{row.key}</td>
+                                    {row.values.map((value, i) => (
+                                        <td
+                                            key={i}
+                                            className={`py-2 px-3 ${row.winner === i ? 'bg-green-500/10 text-green-400 font-semibold' : 'text-gray-200'}`}
+                                        >
+                                            {value ?? <span className="text-gray-600">—</span>}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Verdict */}
+            <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-purple-600 rounded-xl flex items-center justify-center">
+                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                        </svg>
+                    </div>
+                    <h3 className="text-xl font-bold text-white">AI Verdict</h3>
+                </div>
+                {verdict.summary && (
+                    <p className="mb-4 p-4 bg-white/5 rounded-xl border border-white/10 text-gray-200">{verdict.summary}</p>
+                )}
+                <div className="prose-dark max-w-none text-sm">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{verdict.content}</ReactMarkdown>
+                </div>
+            </div>
+        </div>
+    );
+}
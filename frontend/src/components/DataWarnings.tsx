@@ -0,0 +1,25 @@
+import type { AnalysisWarning } from '../types';
+
+interface DataWarningsProps {
+    warnings: AnalysisWarning[];
+}
+
+export default function DataWarnings({ warnings }: DataWarningsProps) {
+    if (warnings.length === 0) return null;
+
+    return (
+        <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+            <div className="flex items-center gap-2 mb-2 text-amber-300 font-semibold text-sm">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                Some data sources disagree
+            </div>
+            <ul className="space-y-1 text-sm text-gray-300">
+                {warnings.map((warning, i) => (
+                    <li key={i}>{warning.message}</li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -1,8 +1,19 @@
 interface LoadingStateProps {
   message?: string;
+  variant?: 'overlay' | 'inline';
 }
 
-export default function LoadingState({ message = "Analyzing your product..." }: LoadingStateProps) {
+export default function LoadingState({ message = "Analyzing your product...", variant = 'overlay' }: LoadingStateProps) {
+  // Compact banner shown above partial results while the rest is still streaming in
+  if (variant === 'inline') {
+    return (
+      <div className="flex items-center gap-3 mb-6 px-4 py-3 bg-blue-500/10 border border-blue-500/20 rounded-xl text-blue-300 text-sm">
+        <div className="w-4 h-4 border-2 border-blue-300/30 border-t-blue-300 rounded-full animate-spin"></div>
+        <span>{message}</span>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-8 max-w-md mx-4 text-center">
@@ -19,4 +30,4 @@ export default function LoadingState({ message = "Analyzing your product..." }:
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,67 @@
+import { useEffect, useState } from 'react';
+import { listOfferBanks, loadCards, saveCards } from '../lib/offers';
+import { api } from '../services/api';
 import type { PriceComparison as PriceComparisonType } from '../types';
 
 interface PriceComparisonProps {
     data: PriceComparisonType;
+    // True while store prices are still being looked up
+    isLoading?: boolean;
+    // Re-check prices at every store; the button is hidden without it
+    onRefresh?: () => Promise<void>;
 }
 
-export default function PriceComparison({ data }: PriceComparisonProps) {
-    const sortedStores = [...data.stores].sort((a, b) => a.price - b.price);
+export default function PriceComparison({ data, isLoading = false, onRefresh }: PriceComparisonProps) {
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [refreshError, setRefreshError] = useState<string | null>(null);
+    const [cards, setCards] = useState<string[]>(loadCards);
+
+    // Prices ranked by the backend for the picked cards; `data` is ranked for no cards
+    const [ranked, setRanked] = useState<{ data: PriceComparisonType; cards: string[]; result: PriceComparisonType } | null>(null);
+
+    useEffect(() => {
+        if (cards.length === 0) return;
+        let cancelled = false;
+        api.rankPrices(data, cards)
+            .then(result => {
+                if (!cancelled) setRanked({ data, cards, result });
+            })
+            .catch(console.error);
+        return () => {
+            cancelled = true;
+        };
+    }, [data, cards]);
+
+    const toggleCard = (bank: string) => {
+        const next = cards.includes(bank) ? cards.filter(card => card !== bank) : [...cards, bank];
+        setCards(next);
+        saveCards(next);
+    };
+
+    const handleRefresh = async () => {
+        if (!onRefresh || isRefreshing) return;
+        setIsRefreshing(true);
+        setRefreshError(null);
+        try {
+            await onRefresh();
+        } catch (err) {
+            console.error(err);
+            setRefreshError('Could not refresh prices. Please try again.');
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const banks = listOfferBanks(data.stores);
+    const stores = cards.length > 0 && ranked?.data === data && ranked.cards === cards ? ranked.result.stores : data.stores;
+
+    // Rank by what the user would actually pay. Unverified prices sink to the bottom so they
+    // never look like the best deal, and search links without a price go after real prices.
+    const sortedStores = [...stores].sort((a, b) =>
+        Number(!!a.suspect) - Number(!!b.suspect) ||
+        Number(a.price <= 0) - Number(b.price <= 0) ||
+        a.effectivePrice - b.effectivePrice
+    );
 
     return (
         <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 h-full">
@@ -19,76 +75,157 @@ export default function PriceComparison({ data }: PriceComparisonProps) {
                     </div>
                     <h3 className="text-xl font-bold text-white">Price Comparison</h3>
                 </div>
-                <span className="text-xs text-gray-400 bg-white/5 px-2 py-1 rounded-lg">
-                    Updated {new Date(data.lastUpdated).toLocaleTimeString()}
-                </span>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400 bg-white/5 px-2 py-1 rounded-lg">
+                        Updated {new Date(data.lastUpdated).toLocaleTimeString()}
+                    </span>
+                    {onRefresh && !isLoading && (
+                        <button
+                            type="button"
+                            onClick={handleRefresh}
+                            disabled={isRefreshing}
+                            className="flex items-center gap-1.5 text-xs text-gray-300 bg-white/5 hover:bg-white/10 border border-white/10 px-2 py-1 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-wait"
+                        >
+                            <svg className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            {isRefreshing ? 'Refreshing...' : 'Refresh prices'}
+                        </button>
+                    )}
+                </div>
             </div>
 
-            <div className="space-y-3">
-                {sortedStores.map((store, i) => (
-                    <a
-                        key={store.name}
-                        href={store.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className={`block group relative p-4 rounded-xl border transition-all ${store.isBestPrice
-                            ? 'bg-green-500/10 border-green-500/30 hover:border-green-500/50'
-                            : 'bg-white/5 border-white/10 hover:border-white/30'
-                            }`}
-                    >
-                        {store.isBestPrice && (
-                            <span className="absolute -top-2 left-4 bg-gradient-to-r from-green-500 to-green-600 text-white text-xs font-bold px-3 py-0.5 rounded-full shadow-lg shadow-green-500/25">
-                                BEST PRICE
-                            </span>
-                        )}
-
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-4">
-                                <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-lg font-bold ${i === 0 ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-gray-400'
-                                    }`}>
-                                    {i + 1}
-                                </div>
-                                <div>
-                                    <p className="font-semibold text-white">{store.name}</p>
-                                    <div className="flex items-center gap-2 mt-1">
-                                        <span className={`text-xs px-2 py-0.5 rounded-full ${store.availability === 'in-stock'
-                                            ? 'bg-green-500/20 text-green-400'
-                                            : store.availability === 'limited'
-                                                ? 'bg-yellow-500/20 text-yellow-400'
-                                                : 'bg-red-500/20 text-red-400'
-                                            }`}>
-                                            {store.availability === 'in-stock' ? 'In Stock' :
-                                                store.availability === 'limited' ? 'Limited Stock' : 'Out of Stock'}
-                                        </span>
+            {refreshError && (
+                <p className="text-sm text-red-400 mb-4">{refreshError}</p>
+            )}
+
+            {banks.length > 0 && (
+                <div className="mb-5">
+                    <p className="text-xs text-gray-400 mb-2">Your cards</p>
+                    <div className="flex flex-wrap gap-2">
+                        {banks.map(bank => (
+                            <button
+                                key={bank}
+                                type="button"
+                                onClick={() => toggleCard(bank)}
+                                aria-pressed={cards.includes(bank)}
+                                className={`text-xs px-3 py-1 rounded-full border transition-colors ${cards.includes(bank)
+                                    ? 'bg-green-500/20 border-green-500/40 text-green-300'
+                                    : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/30'
+                                    }`}
+                            >
+                                {bank}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className={`space-y-3 transition-opacity ${isRefreshing ? 'opacity-60' : ''}`}>
+                {isLoading && sortedStores.length === 0 && (
+                    <p className="text-sm text-gray-400 animate-pulse">Finding prices across stores...</p>
+                )}
+                {sortedStores.map((store, i) => {
+                    const { isBestPrice, savings } = store;
+                    const hasDiscount = store.effectivePrice < store.price;
+                    const appliedOffers = new Set(store.appliedOffers.map(offer => offer.description));
+                    return (
+                        <a
+                            key={store.name}
+                            href={store.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={`block group relative p-4 rounded-xl border transition-all ${isBestPrice
+                                ? 'bg-green-500/10 border-green-500/30 hover:border-green-500/50'
+                                : 'bg-white/5 border-white/10 hover:border-white/30'
+                                }`}
+                        >
+                            {isBestPrice && (
+                                <span className="absolute -top-2 left-4 bg-gradient-to-r from-green-500 to-green-600 text-white text-xs font-bold px-3 py-0.5 rounded-full shadow-lg shadow-green-500/25">
+                                    BEST PRICE
+                                </span>
+                            )}
+
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-4">
+                                    <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-lg font-bold ${i === 0 ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-gray-400'
+                                        }`}>
+                                        {i + 1}
+                                    </div>
+                                    <div>
+                                        <p className="font-semibold text-white">{store.name}</p>
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <span className={`text-xs px-2 py-0.5 rounded-full ${store.availability === 'in-stock'
+                                                ? 'bg-green-500/20 text-green-400'
+                                                : store.availability === 'limited'
+                                                    ? 'bg-yellow-500/20 text-yellow-400'
+                                                    : 'bg-red-500/20 text-red-400'
+                                                }`}>
+                                                {store.availability === 'in-stock' ? 'In Stock' :
+                                                    store.availability === 'limited' ? 'Limited Stock' : 'Out of Stock'}
+                                            </span>
+                                            {store.suspect && (
+                                                <span
+                                                    title={store.suspectReason}
+                                                    className="text-xs px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300"
+                                                >
+                                                    Unverified
+                                                </span>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
 
-                            <div className="text-right flex items-center gap-4">
-                                <div>
-                                    <p className={`text-xl font-bold ${store.isBestPrice ? 'text-green-400' : 'text-white'}`}>
-                                        {store.price > 0 ? `₹${store.price.toLocaleString()}` : 'Check Price →'}
-                                    </p>
-                                    {store.savings && store.savings > 0 && (
-                                        <p className="text-sm text-gray-400">
-                                            Save ₹{store.savings.toLocaleString()}
+                                <div className="text-right flex items-center gap-4">
+                                    <div>
+                                        {hasDiscount && (
+                                            <p className="text-xs text-gray-500 line-through">
+                                                ₹{store.price.toLocaleString()}
+                                            </p>
+                                        )}
+                                        <p className={`text-xl font-bold ${isBestPrice ? 'text-green-400' : store.suspect ? 'text-gray-500' : 'text-white'}`}>
+                                            {store.price > 0 ? `₹${store.effectivePrice.toLocaleString()}` : 'Check Price →'}
                                         </p>
-                                    )}
-                                </div>
+                                        {!store.suspect && !!savings && (
+                                            <p className="text-sm text-gray-400">
+                                                Save ₹{savings.toLocaleString()}
+                                            </p>
+                                        )}
+                                    </div>
 
-                                <svg
-                                    className="w-5 h-5 text-gray-500 group-hover:text-white transition-colors"
-                                    fill="none"
-                                    stroke="currentColor"
-                                    viewBox="0 0 24 24"
-                                >
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
+                                    <svg
+                                        className="w-5 h-5 text-gray-500 group-hover:text-white transition-colors"
+                                        fill="none"
+                                        stroke="currentColor"
+                                        viewBox="0 0 24 24"
+                                    >
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                    </svg>
+                                </div>
                             </div>
-                        </div>
-                    </a>
-                ))}
+
+                            {store.offers.length > 0 && (
+                                <ul className="mt-3 pl-14 space-y-1">
+                                    {store.offers.map((offer, j) => (
+                                        <li
+                                            key={`${j}-${offer.description}`}
+                                            className={`text-xs ${appliedOffers.has(offer.description) ? 'text-green-400' : 'text-gray-500'}`}
+                                        >
+                                            {appliedOffers.has(offer.description) ? '✓ ' : ''}{offer.description}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </a>
+                    );
+                })}
             </div>
+
+            {sortedStores.some(store => store.price > 0) && (
+                <p className="text-xs text-gray-500 mt-4">
+                    Offers are read off the product page on Amazon and Flipkart only. Other stores' offers come from a web search and may be missing, so their price may not include every deal.
+                </p>
+            )}
         </div>
     );
 }
@@ -0,0 +1,89 @@
+import type { PriceHistory } from '../types';
+
+interface PriceHistoryChartProps {
+    history: PriceHistory;
+}
+
+const STORE_COLORS = ['#4ade80', '#60a5fa', '#f472b6', '#facc15', '#a78bfa', '#fb923c', '#f87171'];
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const PADDING = 12;
+
+export default function PriceHistoryChart({ history }: PriceHistoryChartProps) {
+    const allPoints = history.stores.flatMap(s => s.points);
+    if (allPoints.length === 0) return null;
+
+    const times = allPoints.map(p => p.recordedAt.getTime());
+    const prices = allPoints.map(p => p.price);
+    const minTime = Math.min(...times);
+    const maxTime = Math.max(...times);
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+
+    // Avoid dividing by zero when every observation shares a timestamp or price
+    const timeSpan = maxTime - minTime || 1;
+    const priceSpan = maxPrice - minPrice || 1;
+
+    const x = (time: number) => PADDING + ((time - minTime) / timeSpan) * (WIDTH - PADDING * 2);
+    const y = (price: number) => HEIGHT - PADDING - ((price - minPrice) / priceSpan) * (HEIGHT - PADDING * 2);
+
+    return (
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 mt-6">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl flex items-center justify-center">
+                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                        </svg>
+                    </div>
+                    <h3 className="text-xl font-bold text-white">Price History</h3>
+                </div>
+                {history.firstSeen && (
+                    <span className="text-xs text-gray-400 bg-white/5 px-2 py-1 rounded-lg">
+                        Tracked since {history.firstSeen.toLocaleDateString()}
+                    </span>
+                )}
+            </div>
+
+            {/* Chart */}
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 mb-4" preserveAspectRatio="none">
+                <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} stroke="rgba(255,255,255,0.1)" />
+                {history.stores.map((series, i) => {
+                    const color = STORE_COLORS[i % STORE_COLORS.length];
+                    const coords = series.points.map(p => `${x(p.recordedAt.getTime())},${y(p.price)}`);
+                    return (
+                        <g key={series.store}>
+                            {coords.length > 1 && (
+                                <polyline points={coords.join(' ')} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                            )}
+                            {series.points.map((p, j) => (
+                                <circle key={j} cx={x(p.recordedAt.getTime())} cy={y(p.price)} r={3} fill={color}>
+                                    <title>{`${series.store}: ₹${p.price.toLocaleString()} on ${p.recordedAt.toLocaleString()}`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            {/* Per-store stats */}
+            <div className="space-y-2">
+                {history.stores.map((series, i) => (
+                    <div key={series.store} className="flex items-center justify-between text-sm bg-white/5 rounded-lg px-3 py-2 border border-white/5">
+                        <div className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: STORE_COLORS[i % STORE_COLORS.length] }} />
+                            <span className="text-white font-medium">{series.store}</span>
+                        </div>
+                        <div className="flex items-center gap-4 text-gray-400">
+                            <span>Low <span className="text-green-400">₹{series.lowest.toLocaleString()}</span></span>
+                            <span>High <span className="text-red-400">₹{series.highest.toLocaleString()}</span></span>
+                            <span>Avg <span className="text-white">₹{Math.round(series.average).toLocaleString()}</span></span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,36 @@
 import { useState } from 'react';
-import type { Product } from '../types';
+import type { FieldSource, Product } from '../types';
 
 interface ProductHeroProps {
     product: Product;
+    lowestInDays?: number | null;
 }
 
-export default function ProductHero({ product }: ProductHeroProps) {
+/**
+ * Subtle marker for fields that were not read from the store page itself
+ */
+function EstimatedMarker({ source }: { source?: FieldSource }) {
+    if (!source || source === 'scraper') return null;
+
+    const label = source === 'gemini' ? 'AI-estimated' : 'From URL';
+    const hint = source === 'gemini'
+        ? 'Not read from the store page; found by AI web search and may be inaccurate'
+        : 'Guessed from the product URL';
+
+    return (
+        <span
+            title={hint}
+            className="inline-flex items-center gap-1 text-[10px] font-medium uppercase tracking-wide text-amber-300/80 bg-amber-500/10 border border-amber-500/20 px-1.5 py-0.5 rounded align-middle"
+        >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {label}
+        </span>
+    );
+}
+
+export default function ProductHero({ product, lowestInDays }: ProductHeroProps) {
     const [currentImage, setCurrentImage] = useState(0);
 
     const discount = product.price.original
@@ -43,7 +68,10 @@ export default function ProductHero({ product }: ProductHeroProps) {
                 {/* Product Info */}
                 <div className="space-y-4">
                     <div>
-                        <span className="text-sm text-gray-400 uppercase tracking-wide">{product.source.marketplace}</span>
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-400 uppercase tracking-wide">{product.source.marketplace}</span>
+                            <EstimatedMarker source={product.provenance.title} />
+                        </div>
                         <h2 className="text-xl md:text-2xl font-bold text-white mt-1 leading-tight">{product.title}</h2>
                     </div>
 
@@ -56,6 +84,7 @@ export default function ProductHero({ product }: ProductHeroProps) {
                             <span className="text-green-400 font-semibold">{product.ratings.average}</span>
                         </div>
                         <span className="text-gray-400 text-sm">({product.ratings.count.toLocaleString()} reviews)</span>
+                        <EstimatedMarker source={product.provenance.ratings} />
                     </div>
 
                     {/* Price */}
@@ -72,12 +101,24 @@ export default function ProductHero({ product }: ProductHeroProps) {
                             {discount > 0 && (
                                 <span className="text-green-400 font-semibold">{discount}% off</span>
                             )}
+                            <EstimatedMarker source={product.provenance.price} />
                         </div>
+                        {lowestInDays && (
+                            <span className="inline-flex items-center gap-1 text-xs font-semibold text-green-400 bg-green-500/10 border border-green-500/30 px-2 py-0.5 rounded-full">
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                                </svg>
+                                Lowest in {lowestInDays} {lowestInDays === 1 ? 'day' : 'days'}
+                            </span>
+                        )}
                     </div>
 
                     {/* Highlights */}
                     <div className="space-y-3">
-                        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide">Highlights</h3>
+                        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                            Highlights
+                            <EstimatedMarker source={product.provenance.highlights} />
+                        </h3>
                         <ul className="space-y-2">
                             {product.highlights.slice(0, 4).map((highlight, i) => (
                                 <li key={i} className="flex items-start gap-3 text-gray-300 text-sm leading-relaxed">
@@ -107,7 +148,20 @@ export default function ProductHero({ product }: ProductHeroProps) {
 
             {/* Specifications */}
             <div className="mt-8 pt-6 border-t border-white/10">
-                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-4">Specifications</h3>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                        Specifications
+                        <EstimatedMarker source={product.provenance.specifications} />
+                    </h3>
+                    {product.confidence > 0 && (
+                        <span
+                            title="How much of this product data was read directly from the store page"
+                            className="text-xs text-gray-500"
+                        >
+                            Data confidence: {Math.round(product.confidence * 100)}%
+                        </span>
+                    )}
+                </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     {Object.entries(product.specifications).slice(0, 8).map(([key, value]) => (
                         <div key={key} className="bg-white/5 rounded-lg p-4 border border-white/5">
@@ -5,6 +5,7 @@ const platforms = [
   { name: 'Meesho', color: 'text-purple-400' },
   { name: 'Croma', color: 'text-green-400' },
   { name: 'Reliance Digital', color: 'text-red-400' },
+  { name: 'JioMart', color: 'text-sky-400' },
 ];
 
 export default function SupportedPlatforms() {
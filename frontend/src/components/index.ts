@@ -3,7 +3,11 @@ export { default as URLInput } from './URLInput';
 export { default as SupportedPlatforms } from './SupportedPlatforms';
 export { default as LoadingState } from './LoadingState';
 export { default as ProductHero } from './ProductHero';
+export { default as DataWarnings } from './DataWarnings';
 export { default as PriceComparison } from './PriceComparison';
+export { default as PriceHistoryChart } from './PriceHistoryChart';
 export { default as AIRecommendation } from './AIRecommendation';
 export { default as AskAI } from './AskAI';
-export { default as FeedbackRating } from './FeedbackRating';
\ No newline at end of file
+export { default as FeedbackRating } from './FeedbackRating';
+export { default as CompareInput } from './CompareInput';
+export { default as ComparisonView } from './ComparisonView';
\ No newline at end of file
@@ -0,0 +1,27 @@
+import type { PriceComparison } from '../types';
+
+type Store = PriceComparison['stores'][number];
+
+// Banks whose cards the user holds, kept across products
+const CARDS_STORAGE_KEY = 'buysense:cards';
+
+export function loadCards(): string[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CARDS_STORAGE_KEY) ?? '[]');
+        return Array.isArray(saved) ? saved.filter((card): card is string => typeof card === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveCards(cards: string[]): void {
+    localStorage.setItem(CARDS_STORAGE_KEY, JSON.stringify(cards));
+}
+
+/**
+ * Banks with card offers at any store, for choosing which cards the user holds
+ */
+export function listOfferBanks(stores: Store[]): string[] {
+    const banks = new Set(stores.flatMap(store => store.offers.flatMap(offer => (offer.bank ? [offer.bank] : []))));
+    return [...banks].sort();
+}
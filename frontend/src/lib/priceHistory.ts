@@ -0,0 +1,29 @@
+import type { PriceHistory } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many days the given price has been the lowest recorded price.
+ * Looks at the given store's series when it exists, otherwise at every store.
+ * Returns null when there is less than a day of history or a cheaper price was seen today.
+ */
+export function getLowestInDays(history: PriceHistory, currentPrice: number, store?: string, now: Date = new Date()): number | null {
+    if (currentPrice <= 0) return null;
+
+    const storeSeries = store
+        ? history.stores.filter(s => s.store.toLowerCase() === store.toLowerCase())
+        : [];
+    const series = storeSeries.length > 0 ? storeSeries : history.stores;
+    const points = series.flatMap(s => s.points);
+    if (points.length === 0) return null;
+
+    const cheaper = points
+        .filter(p => p.price < currentPrice)
+        .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())[0];
+    const since = cheaper
+        ? cheaper.recordedAt
+        : new Date(Math.min(...points.map(p => p.recordedAt.getTime())));
+
+    const days = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+    return days >= 1 ? days : null;
+}
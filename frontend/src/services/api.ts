@@ -1,4 +1,4 @@
-import type { PriceComparison, AnalysisResult } from '../types';
+import type { Product, PriceComparison, AIAnalysis, AIVerdict, AnalysisResult, AnalysisWarning, PriceHistory, FieldSource, ProvenanceField, ProductCategory, ComparisonResult, ComparisonVerdict, SpecComparisonRow, NormalizedSpec, Offer } from '../types';
 
 const API_BASE = 'https://buysense.onrender.com';
 
@@ -16,6 +16,8 @@ interface BackendResponse {
         };
         images: string[];
         specifications: Record<string, string>;
+        // Missing from analyses cached before specs were normalised
+        normalizedSpecifications?: Record<string, NormalizedSpec>;
         ratings: {
             average: number;
             count: number;
@@ -26,6 +28,8 @@ interface BackendResponse {
             url: string;
         };
         scrapedAt: string;
+        provenance?: Partial<Record<ProvenanceField, FieldSource>>;
+        confidence?: number;
     };
     prices: Array<{
         store: string;
@@ -33,8 +37,15 @@ interface BackendResponse {
         currency: string;
         url: string;
         availability: 'in-stock' | 'out-of-stock' | 'limited';
+        // Missing from prices cached before offers were collected
+        offers?: Offer[];
+        // Missing from prices cached before offers were ranked
+        effectivePrice?: number;
+        appliedOffers?: Offer[];
         savings?: number;
         isBestPrice: boolean;
+        suspect?: boolean;
+        suspectReason?: string;
     }>;
     aiAnalysis: {
         content: string;
@@ -42,76 +53,178 @@ interface BackendResponse {
             title: string;
             uri: string;
         }[];
+        verdict?: AIVerdict | null;
         timestamp: string;
     };
+    warnings?: AnalysisWarning[];
+    category?: ProductCategory;
+    suggestedQuestions?: string[];
     processingTime: number;
 }
 
 interface PricesResponse {
     productId: string;
-    prices: Array<{
+    prices: BackendResponse['prices'];
+    lastUpdated: string;
+    // Only sent by the refresh endpoint
+    warnings?: AnalysisWarning[];
+}
+
+interface CompareResponse {
+    products: BackendResponse[];
+    specs: SpecComparisonRow[];
+    verdict: ComparisonVerdict;
+    processingTime: number;
+}
+
+interface PriceHistoryResponse {
+    productId: string;
+    stores: Array<{
         store: string;
-        price: number;
         currency: string;
-        url: string;
-        availability: 'in-stock' | 'out-of-stock' | 'limited';
-        savings?: number;
-        isBestPrice: boolean;
+        points: Array<{
+            price: number;
+            availability: 'in-stock' | 'out-of-stock' | 'limited';
+            recordedAt: string;
+        }>;
+        lowest: number;
+        highest: number;
+        average: number;
     }>;
-    lastUpdated: string;
+    firstSeen?: string;
+    lastSeen?: string;
+}
+
+export interface RefreshedPrices {
+    priceComparison: PriceComparison;
+    // Store price warnings from the new lookup
+    warnings: AnalysisWarning[];
+}
+
+export interface AskAIResult {
+    answer: string;
+    // 0..1, derived from grounding, spec citations and the model's self-assessment
+    confidence: number;
+    sources: AIAnalysis['sources'];
+    conversationId: string;
+}
+
+/**
+ * Callbacks for api.analyzeProductStream, called as partial results arrive
+ */
+export interface AnalyzeStreamHandlers {
+    onStep?: (message: string) => void;
+    onProduct?: (product: Product, preliminary: boolean) => void;
+    onPrices?: (prices: PriceComparison, warnings: AnalysisWarning[]) => void;
+    onAnalysis?: (delta: string) => void;
+    onResult: (result: AnalysisResult) => void;
+    onError: (error: Error) => void;
+}
+
+function transformProduct(backend: BackendResponse['product']): Product {
+    return {
+        id: backend.id,
+        title: backend.title,
+        images: backend.images,
+        price: backend.price,
+        specifications: backend.specifications,
+        normalizedSpecifications: backend.normalizedSpecifications ?? {},
+        ratings: backend.ratings,
+        highlights: backend.highlights,
+        source: backend.source,
+        scrapedAt: new Date(backend.scrapedAt),
+        provenance: backend.provenance ?? {},
+        confidence: backend.confidence ?? 0,
+    };
+}
+
+function transformPrices(productId: string, prices: BackendResponse['prices'], lastUpdated: Date): PriceComparison {
+    return {
+        productId,
+        stores: prices.map(p => ({
+            name: p.store,
+            price: p.price,
+            currency: p.currency,
+            availability: p.availability,
+            url: p.url,
+            offers: p.offers ?? [],
+            effectivePrice: p.effectivePrice ?? p.price,
+            appliedOffers: p.appliedOffers ?? [],
+            savings: p.savings,
+            isBestPrice: p.isBestPrice,
+            suspect: p.suspect,
+            suspectReason: p.suspectReason,
+        })),
+        lastUpdated,
+    };
 }
 
 function transformResponse(backend: BackendResponse): AnalysisResult {
     return {
-        product: {
-            id: backend.product.id,
-            title: backend.product.title,
-            images: backend.product.images,
-            price: backend.product.price,
-            specifications: backend.product.specifications,
-            ratings: backend.product.ratings,
-            highlights: backend.product.highlights,
-            source: backend.product.source,
-            scrapedAt: new Date(backend.product.scrapedAt),
-        },
-        priceComparison: {
-            productId: backend.product.id,
-            stores: backend.prices.map(p => ({
-                name: p.store,
-                price: p.price,
-                currency: p.currency,
-                availability: p.availability,
-                url: p.url,
-                savings: p.savings,
-                isBestPrice: p.isBestPrice,
-            })),
-            lastUpdated: new Date(),
-        },
+        product: transformProduct(backend.product),
+        priceComparison: transformPrices(backend.product.id, backend.prices, new Date()),
         aiAnalysis: {
             content: backend.aiAnalysis.content,
             sources: backend.aiAnalysis.sources,
+            verdict: backend.aiAnalysis.verdict ?? null,
             timestamp: backend.aiAnalysis.timestamp,
         },
+        warnings: backend.warnings ?? [],
+        category: backend.category ?? 'general',
+        suggestedQuestions: backend.suggestedQuestions ?? [],
         processingTime: backend.processingTime,
     };
 }
 
 function transformPricesResponse(backend: PricesResponse): PriceComparison {
+    return transformPrices(backend.productId, backend.prices, new Date(backend.lastUpdated));
+}
+
+function transformPriceHistoryResponse(backend: PriceHistoryResponse): PriceHistory {
     return {
         productId: backend.productId,
-        stores: backend.prices.map(p => ({
-            name: p.store,
-            price: p.price,
-            currency: p.currency,
-            availability: p.availability,
-            url: p.url,
-            savings: p.savings,
-            isBestPrice: p.isBestPrice,
+        stores: backend.stores.map(s => ({
+            ...s,
+            points: s.points.map(p => ({
+                price: p.price,
+                availability: p.availability,
+                recordedAt: new Date(p.recordedAt),
+            })),
         })),
-        lastUpdated: new Date(backend.lastUpdated),
+        firstSeen: backend.firstSeen ? new Date(backend.firstSeen) : undefined,
+        lastSeen: backend.lastSeen ? new Date(backend.lastSeen) : undefined,
     };
 }
 
+/**
+ * Read a Server-Sent Events response body, calling `onEvent` for each complete event
+ */
+async function readEventStream(response: Response, onEvent: (event: string, data: string) => void): Promise<void> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of block.split('\n')) {
+                if (line.startsWith('event: ')) event = line.slice(7);
+                else if (line.startsWith('data: ')) data.push(line.slice(6));
+            }
+            onEvent(event, data.join('\n'));
+        }
+    }
+}
+
 export const api = {
     /**
      * Analyze a product from a URL
@@ -136,6 +249,72 @@ export const api = {
         return transformResponse(data);
     },
 
+    /**
+     * Analyze a product from a URL, receiving partial results over Server-Sent Events.
+     * Returns a function that stops listening.
+     */
+    analyzeProductStream(url: string, handlers: AnalyzeStreamHandlers): () => void {
+        console.log('Analyzing product (streaming):', url);
+
+        const source = new EventSource(`${API_BASE}/api/analyze/stream?url=${encodeURIComponent(url)}`);
+        const read = <T,>(event: Event) => JSON.parse((event as MessageEvent<string>).data) as T;
+        let productId = '';
+
+        source.addEventListener('step', event => {
+            handlers.onStep?.(read<{ message: string }>(event).message);
+        });
+        source.addEventListener('product', event => {
+            const data = read<{ product: BackendResponse['product']; preliminary: boolean }>(event);
+            productId = data.product.id;
+            handlers.onProduct?.(transformProduct(data.product), data.preliminary);
+        });
+        source.addEventListener('prices', event => {
+            const data = read<{ prices: BackendResponse['prices']; warnings: AnalysisWarning[] }>(event);
+            handlers.onPrices?.(transformPrices(productId, data.prices, new Date()), data.warnings);
+        });
+        source.addEventListener('analysis', event => {
+            handlers.onAnalysis?.(read<{ delta: string }>(event).delta);
+        });
+        source.addEventListener('result', event => {
+            // Close before the server ends the response so EventSource doesn't reconnect
+            source.close();
+            handlers.onResult(transformResponse(read<BackendResponse>(event)));
+        });
+        source.addEventListener('error', event => {
+            source.close();
+            // Our own `error` events carry a message; connection failures don't
+            const message = event instanceof MessageEvent
+                ? read<{ message?: string }>(event).message
+                : undefined;
+            handlers.onError(new Error(message || 'Connection to the analysis stream was lost'));
+        });
+
+        return () => source.close();
+    },
+
+    /**
+     * Analyze 2–4 products and compare them side by side
+     */
+    async compareProducts(urls: string[], cards: string[] = []): Promise<ComparisonResult> {
+        console.log('Comparing products:', urls);
+
+        const response = await fetch(`${API_BASE}/api/compare`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ urls, cards }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+            throw new Error(error.message || `HTTP ${response.status}`);
+        }
+
+        const data = await response.json() as CompareResponse;
+        return { ...data, products: data.products.map(transformResponse) };
+    },
+
     /**
      * Get updated prices for a product
      */
@@ -159,7 +338,76 @@ export const api = {
     },
 
     /**
-     * Ask AI a question about a product
+     * Re-check store prices for an analyzed product without re-running the full analysis
+     */
+    async refreshPrices(productId: string): Promise<RefreshedPrices> {
+        console.log('Refreshing prices for:', productId);
+
+        const response = await fetch(`${API_BASE}/api/prices/${encodeURIComponent(productId)}/refresh`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+            throw new Error(error.message || `HTTP ${response.status}`);
+        }
+
+        const data = await response.json() as PricesResponse;
+        return { priceComparison: transformPricesResponse(data), warnings: data.warnings ?? [] };
+    },
+
+    /**
+     * Rank store prices again after the offers on the user's cards
+     */
+    async rankPrices(priceComparison: PriceComparison, cards: string[]): Promise<PriceComparison> {
+        const response = await fetch(`${API_BASE}/api/prices/rank`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                prices: priceComparison.stores.map(({ name, ...store }) => ({ store: name, ...store })),
+                cards,
+            }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+            throw new Error(error.message || `HTTP ${response.status}`);
+        }
+
+        const data = await response.json() as { prices: BackendResponse['prices'] };
+        return transformPrices(priceComparison.productId, data.prices, priceComparison.lastUpdated);
+    },
+
+    /**
+     * Get the recorded price history for a product
+     */
+    async getPriceHistory(productId: string): Promise<PriceHistory> {
+        console.log('Fetching price history for:', productId);
+
+        const response = await fetch(`${API_BASE}/api/products/${encodeURIComponent(productId)}/history`, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+            throw new Error(error.message || `HTTP ${response.status}`);
+        }
+
+        const data = await response.json() as PriceHistoryResponse;
+        return transformPriceHistoryResponse(data);
+    },
+
+    /**
+     * Ask AI a question about a product. Pass the conversationId from a previous
+     * answer to continue that conversation.
      */
     async askAI(
         _productId: string,
@@ -170,8 +418,9 @@ export const api = {
             specifications?: Record<string, string>;
             ratings?: { average: number; count: number };
             highlights?: string[];
-        }
-    ): Promise<{ answer: string; confidence: number }> {
+        },
+        conversationId?: string
+    ): Promise<AskAIResult> {
         console.log('Asking AI:', question);
 
         const response = await fetch(`${API_BASE}/api/ask-ai`, {
@@ -184,7 +433,8 @@ export const api = {
                     title: 'Product',
                     price: { current: 0, currency: 'INR' }
                 },
-                question
+                question,
+                conversationId
             }),
         });
 
@@ -195,6 +445,65 @@ export const api = {
 
         return response.json();
     },
+
+    /**
+     * Ask AI a question and receive the answer as it is generated.
+     * `onStart` receives the conversation ID as soon as the server assigns it, so it
+     * can be reused even if this answer is cancelled.
+     * Abort `signal` to cancel; the returned promise then rejects with an AbortError.
+     */
+    async askAIStream(
+        _productId: string,
+        question: string,
+        productData: {
+            title: string;
+            price: { current: number; currency: string };
+            specifications?: Record<string, string>;
+            ratings?: { average: number; count: number };
+            highlights?: string[];
+        } | undefined,
+        conversationId: string | undefined,
+        onDelta: (delta: string) => void,
+        signal?: AbortSignal,
+        onStart?: (conversationId: string) => void
+    ): Promise<AskAIResult> {
+        console.log('Asking AI (streaming):', question);
+
+        const response = await fetch(`${API_BASE}/api/ask-ai/stream`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                productData: productData || {
+                    title: 'Product',
+                    price: { current: 0, currency: 'INR' }
+                },
+                question,
+                conversationId
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+            throw new Error(error.message || `HTTP ${response.status}`);
+        }
+
+        let result = null as AskAIResult | null;
+        let failure = null as string | null;
+        await readEventStream(response, (event, data) => {
+            if (event === 'start') onStart?.((JSON.parse(data) as { conversationId: string }).conversationId);
+            else if (event === 'delta') onDelta((JSON.parse(data) as { text: string }).text);
+            else if (event === 'done') result = JSON.parse(data);
+            else if (event === 'error') failure = (JSON.parse(data) as { message: string }).message;
+        });
+
+        if (!result) {
+            throw new Error(failure || 'The answer stream ended unexpectedly');
+        }
+        return result;
+    },
 };
 
 export default api;
@@ -1,5 +1,23 @@
 // Core data types for BuySense application
 
+export type FieldSource = 'scraper' | 'gemini' | 'url-fallback';
+
+export type ProvenanceField = 'title' | 'brand' | 'price' | 'originalPrice' | 'images' | 'specifications' | 'ratings' | 'highlights';
+
+export type SpecUnit = 'mAh' | 'GB' | 'inch' | 'W' | 'kg' | 'Hz' | 'MP' | 'hours' | 'months';
+
+export interface NormalizedSpec {
+  label: string;
+  rawKey: string;
+  value: string;
+  // In the canonical unit, when the value could be read
+  quantity?: {
+    value: number;
+    unit: SpecUnit;
+  };
+  better?: 'higher' | 'lower';
+}
+
 export interface Product {
   id: string;
   title: string;
@@ -10,6 +28,8 @@ export interface Product {
     currency: string;
   };
   specifications: Record<string, string>;
+  // Keyed by canonical spec id ("battery", "ram")
+  normalizedSpecifications: Record<string, NormalizedSpec>;
   ratings: {
     average: number;
     count: number;
@@ -20,38 +40,145 @@ export interface Product {
     url: string;
   };
   scrapedAt: Date;
+  provenance: Partial<Record<ProvenanceField, FieldSource>>;
+  confidence: number;
+}
+
+export type OfferType = 'bank' | 'coupon' | 'cashback' | 'no-cost-emi' | 'exchange';
+
+export interface Offer {
+  type: OfferType;
+  // Bank whose cards qualify; absent for offers open to everyone
+  bank?: string;
+  // Rupees off, or percent of the price when discountType is 'percent'
+  discount: number;
+  discountType: 'flat' | 'percent';
+  cap?: number;
+  minSpend?: number;
+  description: string;
 }
 
 export interface PriceComparison {
   productId: string;
   stores: Array<{
     name: string;
+    // Listing price, before offers
     price: number;
     currency: string;
     availability: 'in-stock' | 'out-of-stock' | 'limited';
     url: string;
+    offers: Offer[];
+    // What the user pays after appliedOffers, worked out by the backend for their cards
+    effectivePrice: number;
+    appliedOffers: Offer[];
+    // How much more than the best price this store costs, both after offers
     savings?: number;
     isBestPrice: boolean;
+    suspect?: boolean;
+    suspectReason?: string;
   }>;
   lastUpdated: Date;
 }
 
+export interface AnalysisWarning {
+  field: 'price' | 'originalPrice' | 'rating' | 'reviewCount' | 'storePrice';
+  message: string;
+  scraped?: number;
+  gemini?: number;
+  store?: string;
+}
+
+export type VerdictDecision = 'BUY' | 'SKIP' | 'CONSIDER';
+
+export type PriceRating = 'good-deal' | 'fair' | 'overpriced';
+
+export interface AIVerdict {
+  verdict: VerdictDecision;
+  score: number;
+  pros: string[];
+  cons: string[];
+  // Absent when the analysis did not rate the price
+  priceAssessment?: {
+    rating: PriceRating;
+    summary: string;
+  };
+}
+
 export interface AIAnalysis {
   content: string;
   sources: {
     title: string;
     uri: string;
   }[];
+  verdict: AIVerdict | null;
   timestamp: string;
 }
 
+export type ProductCategory =
+  | 'smartphone'
+  | 'laptop'
+  | 'audio'
+  | 'television'
+  | 'wearable'
+  | 'appliance'
+  | 'clothing'
+  | 'footwear'
+  | 'beauty'
+  | 'home'
+  | 'general';
+
 export interface AnalysisResult {
   product: Product;
   priceComparison: PriceComparison;
   aiAnalysis: AIAnalysis;
+  warnings: AnalysisWarning[];
+  category: ProductCategory;
+  suggestedQuestions: string[];
   processingTime: number;
 }
 
+// One specification across compared products, in the order of ComparisonResult.products
+export interface SpecComparisonRow {
+  key: string;
+  values: Array<string | null>;
+  // Index of the product with the best value, null if there is no clear winner
+  winner: number | null;
+}
+
+export interface ComparisonVerdict {
+  winner: number | null;
+  summary: string;
+  bestFor: string[];
+  content: string;
+}
+
+export interface ComparisonResult {
+  products: AnalysisResult[];
+  specs: SpecComparisonRow[];
+  verdict: ComparisonVerdict;
+  processingTime: number;
+}
+
+export interface StorePriceHistory {
+  store: string;
+  currency: string;
+  points: Array<{
+    price: number;
+    availability: 'in-stock' | 'out-of-stock' | 'limited';
+    recordedAt: Date;
+  }>;
+  lowest: number;
+  highest: number;
+  average: number;
+}
+
+export interface PriceHistory {
+  productId: string;
+  stores: StorePriceHistory[];
+  firstSeen?: Date;
+  lastSeen?: Date;
+}
+
 export type SupportedMarketplace =
   | 'amazon'
   | 'flipkart'